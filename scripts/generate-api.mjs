@@ -0,0 +1,584 @@
+#!/usr/bin/env node
+// Generates typed request/response types, runtime schemas and service modules from the
+// OpenAPI document in openapi/stc-api.json into src/services/generated.
+//
+//   npm run generate:api          rewrite the generated files
+//   npm run generate:api:check    exit 1 when the checked-in files do not match the spec
+//
+// Every STC response wraps its payload as { result: { data } }; services are typed and
+// validated against the `data` schema. One service module is emitted per operation tag.
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { dirname, join, relative } from "path";
+import { fileURLToPath } from "url";
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), "..");
+const SPEC_PATH = join(ROOT, "openapi", "stc-api.json");
+const OUTPUT_DIR = join(ROOT, "src", "services", "generated");
+const MAX_LINE = 100;
+// Service methods sit inside `return { ... }` of the client factory
+const METHOD_INDENT = 4;
+
+const HEADER = [
+  "// Generated by scripts/generate-api.mjs from openapi/stc-api.json - do not edit.",
+  "// Change the spec and run `npm run generate:api` instead.",
+  "",
+].join("\n");
+
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete"];
+
+// ---------------------------------------------------------------------------
+// Helpers
+
+function refName(ref) {
+  const prefix = "#/components/schemas/";
+  if (!ref.startsWith(prefix)) {
+    throw new Error(`Unsupported $ref ${ref}; only ${prefix}* is supported`);
+  }
+  return ref.slice(prefix.length);
+}
+
+function lowerFirst(value) {
+  return value.charAt(0).toLowerCase() + value.slice(1);
+}
+
+function upperFirst(value) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function schemaConstName(name) {
+  return `${lowerFirst(name)}Schema`;
+}
+
+function quote(value) {
+  return `'${String(value).replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+function propertyKey(key) {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : quote(key);
+}
+
+function indent(text, spaces) {
+  const pad = " ".repeat(spaces);
+  return text
+    .split("\n")
+    .map((line) => (line ? pad + line : line))
+    .join("\n");
+}
+
+// `callee(arg, arg)` on one line when it fits in `width`, otherwise one argument per line
+function formatCall(callee, args, width = 60) {
+  const inline = `${callee}(${args.join(", ")})`;
+  if (inline.length <= width && !inline.includes("\n")) {
+    return inline;
+  }
+  // A lone multi-line argument (an object shape) hugs the parentheses
+  if (args.length === 1 && args[0].startsWith("{\n")) {
+    return inline;
+  }
+  return `${callee}(\n${indent(args.join(",\n"), 2)}\n)`;
+}
+
+function formatImport(names, from, typeOnly = false) {
+  const keyword = typeOnly ? "import type" : "import";
+  const inline = `${keyword} { ${names.join(", ")} } from '${from}';`;
+  return inline.length <= MAX_LINE
+    ? inline
+    : `${keyword} {\n${indent(names.map((name) => `${name},`).join("\n"), 2)}\n} from '${from}';`;
+}
+
+// Payloads declared as `{ nullable: true }` with no type carry no data (APIResponse<null>)
+function isNullPayload(schema) {
+  return !!schema && schema.nullable === true && !schema.type && !schema.$ref && !schema.oneOf;
+}
+
+// Flatten allOf so runtime schemas can check the combined properties
+function resolveObject(schema, components) {
+  if (schema.$ref) {
+    return resolveObject(components[refName(schema.$ref)], components);
+  }
+  if (schema.allOf) {
+    return schema.allOf.reduce(
+      (merged, part) => {
+        const resolved = resolveObject(part, components);
+        return {
+          ...merged,
+          properties: { ...merged.properties, ...resolved.properties },
+          required: [...merged.required, ...resolved.required],
+          additionalProperties: merged.additionalProperties || resolved.additionalProperties,
+        };
+      },
+      { type: "object", properties: {}, required: [], additionalProperties: false }
+    );
+  }
+  return {
+    ...schema,
+    properties: schema.properties ?? {},
+    required: schema.required ?? [],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// TypeScript types
+
+function tsType(schema, depth = 0) {
+  if (!schema || Object.keys(schema).filter((key) => key !== "description").length === 0) {
+    return "unknown";
+  }
+  if (isNullPayload(schema)) {
+    return "null";
+  }
+
+  let type;
+  if (schema.$ref) {
+    type = refName(schema.$ref);
+  } else if (schema.oneOf || schema.anyOf) {
+    type = (schema.oneOf ?? schema.anyOf).map((option) => tsType(option, depth)).join(" | ");
+  } else if (schema.enum) {
+    type = schema.enum
+      .map((value) => (typeof value === "string" ? quote(value) : String(value)))
+      .join(" | ");
+  } else if (schema.type === "string") {
+    type = "string";
+  } else if (schema.type === "integer" || schema.type === "number") {
+    type = "number";
+  } else if (schema.type === "boolean") {
+    type = "boolean";
+  } else if (schema.type === "array") {
+    const item = tsType(schema.items, depth);
+    type = /[ |]/.test(item) ? `Array<${item}>` : `${item}[]`;
+  } else if (schema.type === "object" || schema.properties) {
+    type = tsObjectLiteral(schema, depth);
+  } else {
+    throw new Error(`Unsupported schema: ${JSON.stringify(schema)}`);
+  }
+
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function tsObjectLiteral(schema, depth) {
+  const properties = Object.entries(schema.properties ?? {});
+  const required = new Set(schema.required ?? []);
+
+  if (properties.length === 0) {
+    if (schema.additionalProperties) {
+      const value =
+        schema.additionalProperties === true
+          ? "unknown"
+          : tsType(schema.additionalProperties, depth);
+      return `Record<string, ${value}>`;
+    }
+    return "Record<string, never>";
+  }
+
+  const members = properties.map(
+    ([key, property]) =>
+      `${propertyKey(key)}${required.has(key) ? "" : "?"}: ${tsType(property, depth + 1)}`
+  );
+  if (schema.additionalProperties) {
+    members.push("[key: string]: unknown");
+  }
+
+  const inline = `{ ${members.join("; ")} }`;
+  return inline.length + depth * 2 <= 80
+    ? inline
+    : `{\n${indent(members.map((member) => `${member};`).join("\n"), 2)}\n}`;
+}
+
+function tsInterfaceBody(schema) {
+  const required = new Set(schema.required ?? []);
+  const lines = [];
+  Object.entries(schema.properties ?? {}).forEach(([key, property]) => {
+    if (property.description) {
+      lines.push(`// ${property.description}`);
+    }
+    lines.push(`${propertyKey(key)}${required.has(key) ? "" : "?"}: ${tsType(property, 1)};`);
+  });
+  if (schema.additionalProperties) {
+    lines.push("[key: string]: unknown;");
+  }
+  return lines.length ? `{\n${indent(lines.join("\n"), 2)}\n}` : "{}";
+}
+
+function generateTypes(components) {
+  const blocks = Object.entries(components).map(([name, schema]) => {
+    const comment = schema.description ? `// ${schema.description}\n` : "";
+
+    if (schema.allOf) {
+      const bases = schema.allOf.filter((part) => part.$ref).map((part) => refName(part.$ref));
+      const own = schema.allOf.filter((part) => !part.$ref);
+      const body = resolveObject({ allOf: own }, components);
+      const heritage = `extends ${bases.join(", ")}`;
+      return `${comment}export interface ${name} ${heritage} ${tsInterfaceBody(body)}`;
+    }
+    if (schema.type === "object" && schema.properties) {
+      return `${comment}export interface ${name} ${tsInterfaceBody(schema)}`;
+    }
+    return `${comment}export type ${name} = ${tsType(schema)};`;
+  });
+
+  return `${HEADER}\n${blocks.join("\n\n")}\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Runtime schemas (see src/services/utils/schema.ts)
+
+function schemaExpression(schema, components, typeName, width) {
+  if (!schema || Object.keys(schema).filter((key) => key !== "description").length === 0) {
+    return "schema.unknown()";
+  }
+  if (isNullPayload(schema)) {
+    return "schema.null()";
+  }
+
+  let expression;
+  if (schema.$ref) {
+    expression = schemaConstName(refName(schema.$ref));
+  } else if (schema.oneOf || schema.anyOf) {
+    const options = (schema.oneOf ?? schema.anyOf).map((option) =>
+      schemaExpression(option, components)
+    );
+    expression = formatCall("schema.union", options, width);
+  } else if (schema.enum) {
+    expression = `schema.literal(${schema.enum
+      .map((value) => (typeof value === "string" ? quote(value) : String(value)))
+      .join(", ")})`;
+  } else if (schema.type === "string") {
+    expression = "schema.string()";
+  } else if (schema.type === "integer" || schema.type === "number") {
+    expression = "schema.number()";
+  } else if (schema.type === "boolean") {
+    expression = "schema.boolean()";
+  } else if (schema.type === "array") {
+    expression = `schema.array(${schemaExpression(schema.items, components)})`;
+  } else if (schema.allOf || schema.type === "object" || schema.properties) {
+    expression = objectSchemaExpression(resolveObject(schema, components), components, typeName);
+  } else {
+    throw new Error(`Unsupported schema: ${JSON.stringify(schema)}`);
+  }
+
+  return schema.nullable ? `schema.nullable(${expression})` : expression;
+}
+
+function objectSchemaExpression(schema, components, typeName) {
+  const properties = Object.entries(schema.properties);
+  const required = new Set(schema.required);
+
+  if (properties.length === 0 && schema.additionalProperties) {
+    const value =
+      schema.additionalProperties === true
+        ? "schema.unknown()"
+        : schemaExpression(schema.additionalProperties, components);
+    return `schema.record(${value})`;
+  }
+
+  const entries = properties.map(([key, property]) => {
+    const value = schemaExpression(property, components);
+    return `${propertyKey(key)}: ${required.has(key) ? value : `schema.optional(${value})`},`;
+  });
+  const shape = entries.length ? `{\n${indent(entries.join("\n"), 2)}\n}` : "{}";
+
+  const options = [];
+  if (typeName) {
+    options.push(`name: ${quote(typeName)}`);
+  }
+  if (schema.additionalProperties) {
+    options.push("open: true");
+  }
+  const typeArgument = typeName ?? tsObjectLiteral(schema, 0);
+  const args = options.length ? [shape, `{ ${options.join(", ")} }`] : [shape];
+  return formatCall(`schema.object<${typeArgument}>`, args);
+}
+
+function collectRefs(schema, refs = new Set()) {
+  if (!schema || typeof schema !== "object") {
+    return refs;
+  }
+  if (schema.$ref) {
+    refs.add(refName(schema.$ref));
+  }
+  Object.values(schema).forEach((value) => collectRefs(value, refs));
+  return refs;
+}
+
+// Schemas reference each other as consts, so emit dependencies first
+function sortByDependencies(components) {
+  const sorted = [];
+  const state = new Map();
+
+  const visit = (name, trail) => {
+    if (state.get(name) === "done") {
+      return;
+    }
+    if (state.get(name) === "visiting") {
+      throw new Error(`Circular schema reference: ${[...trail, name].join(" -> ")}`);
+    }
+    state.set(name, "visiting");
+    collectRefs(components[name]).forEach((dependency) => visit(dependency, [...trail, name]));
+    state.set(name, "done");
+    sorted.push(name);
+  };
+
+  Object.keys(components).forEach((name) => visit(name, []));
+  return sorted;
+}
+
+function generateSchemas(components) {
+  const names = sortByDependencies(components);
+  let annotated = false;
+  const blocks = names.map((name) => {
+    const prefix = `export const ${schemaConstName(name)}: Schema<${name}> = `;
+    const width = MAX_LINE - prefix.length - 1;
+    const expression = schemaExpression(components[name], components, name, width);
+    // schema.object<T> is already typed; other builders get an explicit annotation
+    if (expression.startsWith(`schema.object<${name}>`)) {
+      return `export const ${schemaConstName(name)} = ${expression};`;
+    }
+    annotated = true;
+    return `export const ${schemaConstName(name)}: Schema<${name}> = ${expression};`;
+  });
+
+  return [
+    HEADER,
+    annotated
+      ? "import { Schema, schema } from '../utils/schema';"
+      : "import { schema } from '../utils/schema';",
+    formatImport(names, "./types", true),
+    "",
+    blocks.join("\n\n"),
+    "",
+  ].join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Service modules
+
+function payloadSchema(operation) {
+  const content = operation.responses?.["200"]?.content?.["application/json"]?.schema;
+  const data = content?.properties?.result?.properties?.data;
+  if (!data) {
+    throw new Error(
+      `${operation.operationId}: 200 response is not a { result: { data } } envelope`
+    );
+  }
+  return data;
+}
+
+function generateMethod(path, method, operation, components, usedTypes, usedSchemas) {
+  const name = operation.operationId;
+  const pathParams = (operation.parameters ?? []).filter((param) => param.in === "path");
+  const queryParams = (operation.parameters ?? []).filter((param) => param.in === "query");
+  const body = operation.requestBody?.content?.["application/json"]?.schema;
+  const payload = payloadSchema(operation);
+
+  const trackRefs = (schema) => collectRefs(schema).forEach((ref) => usedTypes.add(ref));
+  trackRefs(body);
+  trackRefs(payload);
+  queryParams.forEach((param) => trackRefs(param.schema));
+
+  const args = pathParams.map((param) => `${param.name}: ${tsType(param.schema)}`);
+  if (body) {
+    args.push(`data: ${tsType(body)}`);
+  }
+  if (queryParams.length) {
+    const members = queryParams.map(
+      (param) => `${propertyKey(param.name)}${param.required ? "" : "?"}: ${tsType(param.schema)}`
+    );
+    const optional = queryParams.every((param) => !param.required);
+    args.push(`params${optional ? "?" : ""}: { ${members.join("; ")} }`);
+  }
+  args.push("options?: RequestOptions");
+
+  const urlPath = path.replace(/\{(\w+)\}/g, (_, param) => `\${encodeURIComponent(${param})}`);
+  let url = pathParams.length ? `\`${urlPath}\`` : quote(path);
+  if (queryParams.length) {
+    url = `buildApiUrl(${url}, params)`;
+  }
+
+  const config = Object.entries(operation["x-request-config"] ?? {}).map(
+    ([key, value]) => `${key}: ${JSON.stringify(value)}`
+  );
+  // Inline payload schemas become module-level consts next to the service
+  const declarations = [];
+  if (!isNullPayload(payload) && Object.keys(payload).some((key) => key !== "description")) {
+    let validator = schemaExpression(payload, components);
+    if (!payload.$ref) {
+      const constName = `${name}ResponseSchema`;
+      declarations.push(`const ${constName} = ${validator};`);
+      validator = constName;
+    }
+    collectRefs(payload).forEach((ref) => usedSchemas.add(ref));
+    config.push(`schema: ${validator}`);
+  }
+  const configArg = config.length ? `{ ...options, ${config.join(", ")} }` : "options";
+
+  const callArgs = [url];
+  if (body) {
+    callArgs.push("data");
+  } else if (method !== "get" && method !== "delete") {
+    callArgs.push("undefined");
+  }
+  callArgs.push(configArg);
+
+  const returnType = `Promise<APIResponse<${tsType(payload)}>>`;
+  const inlineSignature = `${name}(${args.join(", ")}): ${returnType} {`;
+  const signature =
+    inlineSignature.length + METHOD_INDENT <= MAX_LINE
+      ? inlineSignature
+      : `${name}(\n${indent(args.join(",\n"), 2)}\n): ${returnType} {`;
+
+  const oneLine = `return client.${method}(${callArgs.join(", ")}).then((res) => res.data);`;
+  const chained = [
+    "return client",
+    indent(formatCall(`.${method}`, callArgs, MAX_LINE - METHOD_INDENT - 4), 2),
+    "  .then((res) => res.data);",
+  ].join("\n");
+  const call = oneLine.length + METHOD_INDENT + 2 <= MAX_LINE ? oneLine : chained;
+
+  const summary = (operation.summary ?? `${method.toUpperCase()} ${path}`).replace(/\.?$/, "");
+  const doc = ["/**", ...summary.split(/(?<=\.) /).map((line) => ` * ${line}`), " */"].join("\n");
+
+  return {
+    source: `${doc}\n${signature}\n${indent(call, 2)}\n},`,
+    declarations,
+  };
+}
+
+function generateServices(spec) {
+  const components = spec.components?.schemas ?? {};
+  const byTag = new Map();
+
+  Object.entries(spec.paths).forEach(([path, item]) => {
+    HTTP_METHODS.forEach((method) => {
+      const operation = item[method];
+      if (!operation) {
+        return;
+      }
+      if (!operation.operationId) {
+        throw new Error(`${method.toUpperCase()} ${path} has no operationId`);
+      }
+      const tag = operation.tags?.[0] ?? "default";
+      if (!byTag.has(tag)) {
+        byTag.set(tag, []);
+      }
+      byTag.get(tag).push({ path, method, operation });
+    });
+  });
+
+  const files = {};
+  byTag.forEach((operations, tag) => {
+    const usedTypes = new Set();
+    const usedSchemas = new Set();
+    const generated = operations.map(({ path, method, operation }) =>
+      generateMethod(path, method, operation, components, usedTypes, usedSchemas)
+    );
+    const methods = generated.map((entry) => entry.source);
+    const declarations = generated.flatMap((entry) => entry.declarations);
+    const camelTag = tag.replace(/[^A-Za-z0-9]+(.)/g, (_, c) => c.toUpperCase());
+    const serviceName = `${lowerFirst(camelTag)}Api`;
+    const typeName = `${upperFirst(camelTag)}Api`;
+    const needsUrl = operations.some(({ operation }) =>
+      (operation.parameters ?? []).some((param) => param.in === "query")
+    );
+    const description = spec.tags?.find((entry) => entry.name === tag)?.description;
+
+    const imports = [
+      "import type { AxiosInstance } from 'axios';",
+      "import { APIResponse, RequestOptions } from '../types/api';",
+      "import stcApi from '../instances/stc';",
+    ];
+    if (needsUrl) {
+      imports.push("import { buildApiUrl } from '../utils/url';");
+    }
+    if (declarations.length) {
+      imports.push("import { schema } from '../utils/schema';");
+    }
+    if (usedTypes.size) {
+      imports.push(formatImport([...usedTypes].sort(), "./types", true));
+    }
+    if (usedSchemas.size) {
+      const names = [...usedSchemas].sort().map(schemaConstName);
+      imports.push(formatImport(names, "./schemas"));
+    }
+
+    files[`${tag}.ts`] = [
+      HEADER,
+      imports.join("\n"),
+      "",
+      ...declarations.map((declaration) => `${declaration}\n`),
+      description ? `// ${description}` : null,
+      "// Pass a client to run the same calls through another instance, e.g. createServerApi()",
+      `export function create${typeName}(client: AxiosInstance = stcApi) {`,
+      "  return {",
+      indent(methods.join("\n\n"), METHOD_INDENT),
+      "  };",
+      "}",
+      "",
+      `export type ${typeName} = ReturnType<typeof create${typeName}>;`,
+      "",
+      `const ${serviceName} = create${typeName}();`,
+      "",
+      `export default ${serviceName};`,
+      "",
+    ]
+      .filter((line) => line !== null)
+      .join("\n");
+  });
+
+  return files;
+}
+
+// ---------------------------------------------------------------------------
+
+function generate() {
+  const spec = JSON.parse(readFileSync(SPEC_PATH, "utf8"));
+  const components = spec.components?.schemas ?? {};
+
+  const files = {
+    "types.ts": generateTypes(components),
+    "schemas.ts": generateSchemas(components),
+  };
+  Object.assign(files, generateServices(spec));
+  return files;
+}
+
+function main() {
+  const check = process.argv.includes("--check");
+  const files = generate();
+  const existing = existsSync(OUTPUT_DIR)
+    ? readdirSync(OUTPUT_DIR).filter((name) => name.endsWith(".ts"))
+    : [];
+
+  if (check) {
+    const stale = Object.entries(files)
+      .filter(([name, source]) => {
+        const path = join(OUTPUT_DIR, name);
+        return !existsSync(path) || readFileSync(path, "utf8") !== source;
+      })
+      .map(([name]) => name);
+    const orphaned = existing.filter((name) => !(name in files));
+
+    if (stale.length || orphaned.length) {
+      const dir = relative(ROOT, OUTPUT_DIR);
+      stale.forEach((name) => console.error(`  out of date: ${join(dir, name)}`));
+      orphaned.forEach((name) => console.error(`  not in spec: ${join(dir, name)}`));
+      console.error(
+        "Generated API client does not match openapi/stc-api.json. Run `npm run generate:api`."
+      );
+      process.exit(1);
+    }
+    console.log("Generated API client is up to date.");
+    return;
+  }
+
+  mkdirSync(OUTPUT_DIR, { recursive: true });
+  existing
+    .filter((name) => !(name in files))
+    .forEach((name) => rmSync(join(OUTPUT_DIR, name)));
+  Object.entries(files).forEach(([name, source]) => {
+    writeFileSync(join(OUTPUT_DIR, name), source);
+  });
+  console.log(`Wrote ${Object.keys(files).length} files to ${relative(ROOT, OUTPUT_DIR)}`);
+}
+
+main();
@@ -0,0 +1,22 @@
+import TwoFactorSettings from '@/components/two-factor-settings';
+import ImpersonateUserForm from '@/components/impersonate-user-form';
+
+export default function AccountPage() {
+  return (
+    <div className="min-h-screen surface-50 p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center mb-6">
+          <h1 className="text-4xl font-bold text-900 mb-4">
+            Account Settings
+          </h1>
+          <p className="text-xl text-600 mb-4">
+            Manage how you sign in to Skilled Trades Connect
+          </p>
+        </div>
+
+        <TwoFactorSettings />
+        <ImpersonateUserForm />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAuthService, createServerApi } from "@/services";
+import {
+  IMPERSONATOR_COOKIE_NAME,
+  IMPERSONATOR_ID_COOKIE_NAME,
+  SESSION_COOKIE_NAME,
+  createSessionResponse,
+  getSessionToken,
+  getSessionUser,
+  sessionCan,
+  sessionCookieOptions,
+  upstreamErrorResponse,
+} from "@/lib/session";
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ result: { data: null, message, success: false } }, { status });
+}
+
+/**
+ * Start viewing the app as another user: the admin token moves to its own cookie
+ * and the session cookie carries the target user's token
+ */
+export async function POST(request: NextRequest) {
+  const authService = createAuthService(createServerApi(request));
+  const adminToken = await getSessionToken();
+  const admin = await getSessionUser();
+
+  if (!adminToken || !admin || !(await sessionCan("user:impersonate"))) {
+    return errorResponse("You are not allowed to impersonate users", 403);
+  }
+  if (request.cookies.has(IMPERSONATOR_COOKIE_NAME)) {
+    return errorResponse("Return to your own account before impersonating someone else", 409);
+  }
+
+  const { userId } = (await request.json()) as { userId?: string };
+  if (!userId) {
+    return errorResponse("User ID is required", 400);
+  }
+
+  try {
+    const response = await authService.impersonate(userId, adminToken);
+    const nextResponse = createSessionResponse(response);
+    nextResponse.cookies.set(IMPERSONATOR_COOKIE_NAME, adminToken, sessionCookieOptions);
+    nextResponse.cookies.set(IMPERSONATOR_ID_COOKIE_NAME, admin.id, sessionCookieOptions);
+    return nextResponse;
+  } catch (error) {
+    return upstreamErrorResponse(error, "Impersonation Route");
+  }
+}
+
+/**
+ * Return to the admin session kept aside by POST; responds with the admin user
+ */
+export async function DELETE(request: NextRequest) {
+  const authService = createAuthService(createServerApi(request));
+  const adminToken = request.cookies.get(IMPERSONATOR_COOKIE_NAME)?.value;
+
+  if (!adminToken) {
+    return errorResponse("Not impersonating anyone", 409);
+  }
+
+  const impersonationToken = await getSessionToken();
+  if (impersonationToken) {
+    await authService.endImpersonation(impersonationToken).catch((error) => {
+      console.error("[Impersonation Route] Failed to end impersonation upstream:", error);
+    });
+  }
+
+  const admin = await authService
+    .decodeJWT(adminToken)
+    .then((response) => response.result.data ?? null)
+    .catch(() => null);
+
+  const nextResponse = NextResponse.json({ result: { data: admin, success: true } });
+  nextResponse.cookies.set(SESSION_COOKIE_NAME, adminToken, sessionCookieOptions);
+  nextResponse.cookies.delete(IMPERSONATOR_COOKIE_NAME);
+  nextResponse.cookies.delete(IMPERSONATOR_ID_COOKIE_NAME);
+  return nextResponse;
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAuthService, createServerApi } from "@/services";
+import { SESSION_COOKIE_NAME, sessionCookieOptions } from "@/lib/session";
+import {
+  OIDC_CALLBACK_PATH,
+  OIDC_FLOW_COOKIE_NAME,
+  OIDC_RESULT_COOKIE_NAME,
+  OIDC_RESULT_MAX_AGE,
+  OidcFlowState,
+  discoverProvider,
+  exchangeAuthorizationCode,
+  getOidcConfig,
+  oidcFlowCookieOptions,
+  toOidcIdentity,
+  validateIdToken,
+} from "@/lib/oidc";
+
+function loginErrorRedirect(request: NextRequest, error: string) {
+  const response = NextResponse.redirect(new URL(`/login?error=${error}`, request.url));
+  response.cookies.delete({ name: OIDC_FLOW_COOKIE_NAME, path: oidcFlowCookieOptions.path });
+  return response;
+}
+
+/**
+ * Finish the OIDC flow: exchange the code, map the identity to an STC user and start the session
+ */
+export async function GET(request: NextRequest) {
+  const authService = createAuthService(createServerApi(request));
+  const { origin, searchParams } = request.nextUrl;
+  const config = getOidcConfig(origin);
+  const flowCookie = request.cookies.get(OIDC_FLOW_COOKIE_NAME)?.value;
+
+  if (!config) {
+    return loginErrorRedirect(request, "oidc_unavailable");
+  }
+  if (searchParams.get("error")) {
+    return loginErrorRedirect(request, "oidc_denied");
+  }
+
+  let flow: OidcFlowState;
+  try {
+    flow = JSON.parse(flowCookie ?? "") as OidcFlowState;
+  } catch {
+    return loginErrorRedirect(request, "oidc_failed");
+  }
+
+  const code = searchParams.get("code");
+  if (!code || searchParams.get("state") !== flow.state) {
+    console.error("[OIDC Callback] Missing code or state mismatch");
+    return loginErrorRedirect(request, "oidc_failed");
+  }
+
+  try {
+    const metadata = await discoverProvider(config);
+    const tokens = await exchangeAuthorizationCode(
+      config,
+      metadata,
+      code,
+      flow.codeVerifier,
+      `${origin}${OIDC_CALLBACK_PATH}`
+    );
+    const claims = validateIdToken(tokens.id_token, config, metadata, flow.nonce);
+    const loginResponse = await authService.signInWithOidc(toOidcIdentity(claims, tokens.id_token));
+
+    // The client page picks the result up once to populate loginAtom
+    const completeUrl = new URL("/login/oidc", request.url);
+    completeUrl.searchParams.set("returnTo", flow.returnTo);
+
+    const response = NextResponse.redirect(completeUrl);
+    response.cookies.set(SESSION_COOKIE_NAME, loginResponse.result.data.token, sessionCookieOptions);
+    response.cookies.set(OIDC_RESULT_COOKIE_NAME, JSON.stringify(loginResponse), {
+      ...oidcFlowCookieOptions,
+      maxAge: OIDC_RESULT_MAX_AGE,
+    });
+    response.cookies.delete({ name: OIDC_FLOW_COOKIE_NAME, path: oidcFlowCookieOptions.path });
+    return response;
+  } catch (error) {
+    console.error("[OIDC Callback] Sign-in failed:", error);
+    return loginErrorRedirect(request, "oidc_failed");
+  }
+}
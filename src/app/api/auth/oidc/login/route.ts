@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sanitizeReturnTo } from "@/lib/route-access";
+import {
+  OIDC_CALLBACK_PATH,
+  OIDC_FLOW_COOKIE_NAME,
+  OidcFlowState,
+  buildAuthorizationUrl,
+  discoverProvider,
+  getOidcConfig,
+  oidcFlowCookieOptions,
+  randomUrlSafeString,
+} from "@/lib/oidc";
+
+/**
+ * Start the authorization-code + PKCE flow and send the browser to the identity provider
+ */
+export async function GET(request: NextRequest) {
+  const { origin, searchParams } = request.nextUrl;
+  const config = getOidcConfig(origin);
+
+  if (!config) {
+    return NextResponse.redirect(new URL("/login?error=oidc_unavailable", request.url));
+  }
+
+  const flow: OidcFlowState = {
+    state: randomUrlSafeString(),
+    nonce: randomUrlSafeString(),
+    codeVerifier: randomUrlSafeString(48),
+    returnTo: sanitizeReturnTo(searchParams.get("returnTo")),
+  };
+
+  try {
+    const metadata = await discoverProvider(config);
+    const authorizationUrl = await buildAuthorizationUrl(
+      config,
+      metadata,
+      flow,
+      `${origin}${OIDC_CALLBACK_PATH}`
+    );
+
+    const response = NextResponse.redirect(authorizationUrl);
+    response.cookies.set(OIDC_FLOW_COOKIE_NAME, JSON.stringify(flow), oidcFlowCookieOptions);
+    return response;
+  } catch (error) {
+    console.error("[OIDC Login] Failed to start sign-in:", error);
+    return NextResponse.redirect(new URL("/login?error=oidc_failed", request.url));
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { OIDC_RESULT_COOKIE_NAME, oidcFlowCookieOptions } from "@/lib/oidc";
+
+/**
+ * Hand the OIDC sign-in result to the client once, then forget it
+ */
+export async function GET(request: NextRequest) {
+  const result = request.cookies.get(OIDC_RESULT_COOKIE_NAME)?.value;
+
+  if (!result) {
+    return NextResponse.json(
+      { result: { data: null, message: "No pending OIDC sign-in", success: false } },
+      { status: 404 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(result);
+  } catch {
+    body = undefined;
+  }
+
+  // A tampered or truncated cookie is useless; drop it either way
+  const response =
+    body === undefined
+      ? NextResponse.json(
+          { result: { data: null, message: "Invalid OIDC sign-in result", success: false } },
+          { status: 400 }
+        )
+      : NextResponse.json(body);
+  response.cookies.delete({ name: OIDC_RESULT_COOKIE_NAME, path: oidcFlowCookieOptions.path });
+  // The body holds the token pair; never let a cache keep it
+  response.headers.set("Cache-Control", "no-store");
+  return response;
+}
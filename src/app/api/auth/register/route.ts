@@ -0,0 +1,18 @@
+import { NextRequest } from "next/server";
+import { createAuthService, createServerApi, type RegistrationData } from "@/services";
+import { createSessionResponse, upstreamErrorResponse } from "@/lib/session";
+
+/**
+ * Create an account against the STC API and sign the new user in with a session cookie
+ */
+export async function POST(request: NextRequest) {
+  const authService = createAuthService(createServerApi(request));
+  const data = (await request.json()) as RegistrationData;
+
+  try {
+    const response = await authService.register(data);
+    return createSessionResponse(response);
+  } catch (error) {
+    return upstreamErrorResponse(error, "Register Route");
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest } from "next/server";
+import { createAuthService, createServerApi, type MfaVerification } from "@/services";
+import { createSessionResponse, upstreamErrorResponse } from "@/lib/session";
+
+/**
+ * Answer the two-factor challenge and store the resulting token in an httpOnly cookie
+ */
+export async function POST(request: NextRequest) {
+  const authService = createAuthService(createServerApi(request));
+  const verification = (await request.json()) as MfaVerification;
+
+  try {
+    const response = await authService.verifyMfa(verification);
+    return createSessionResponse(response);
+  } catch (error) {
+    return upstreamErrorResponse(error, "MFA Session Route");
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAuthService,
+  createServerApi,
+  decodeTokenSubject,
+  isMfaChallenge,
+  type AuthCredentials,
+} from "@/services";
+import {
+  IMPERSONATOR_COOKIE_NAME,
+  IMPERSONATOR_ID_COOKIE_NAME,
+  SESSION_COOKIE_NAME,
+  createSessionResponse,
+  rejectCrossSiteRequest,
+  sessionCookieOptions,
+  upstreamErrorResponse,
+} from "@/lib/session";
+
+/**
+ * Sign in against the STC API and store the token in an httpOnly cookie
+ */
+export async function POST(request: NextRequest) {
+  const refused = rejectCrossSiteRequest(request);
+  if (refused) {
+    return refused;
+  }
+
+  const authService = createAuthService(createServerApi(request));
+  const credentials = (await request.json()) as AuthCredentials;
+
+  try {
+    const response = await authService.login(credentials);
+    const { data } = response.result;
+
+    // No session yet: the client has to answer the two-factor challenge first
+    if (isMfaChallenge(data)) {
+      return NextResponse.json(response);
+    }
+
+    return createSessionResponse({ result: { ...response.result, data } });
+  } catch (error) {
+    return upstreamErrorResponse(error, "Session Route");
+  }
+}
+
+/**
+ * Replace the session token after the client rotated its access token.
+ * The new token must be valid upstream and belong to the user the current cookie was issued for.
+ */
+export async function PUT(request: NextRequest) {
+  const refused = rejectCrossSiteRequest(request);
+  if (refused) {
+    return refused;
+  }
+
+  const { token } = (await request.json()) as { token?: string };
+
+  if (!token) {
+    return NextResponse.json(
+      { result: { data: null, message: "Token is required", success: false } },
+      { status: 400 }
+    );
+  }
+
+  // The cookie may hold an expired token by now, so compare its claim rather than decoding upstream
+  const currentToken = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const sessionUserId = currentToken ? decodeTokenSubject(currentToken) : null;
+  if (!sessionUserId) {
+    return NextResponse.json(
+      { result: { data: null, message: "No session to update", success: false } },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const authService = createAuthService(createServerApi(request));
+    const { data: user } = (await authService.decodeJWT(token)).result;
+
+    if (user?.id !== sessionUserId) {
+      return NextResponse.json(
+        { result: { data: null, message: "Token belongs to another session", success: false } },
+        { status: 403 }
+      );
+    }
+  } catch (error) {
+    return upstreamErrorResponse(error, "Session Route");
+  }
+
+  const nextResponse = NextResponse.json({ result: { data: null, success: true } });
+  nextResponse.cookies.set(SESSION_COOKIE_NAME, token, sessionCookieOptions);
+  return nextResponse;
+}
+
+/**
+ * Clear the session cookie, and the admin session kept aside while impersonating
+ */
+export async function DELETE(request: NextRequest) {
+  const refused = rejectCrossSiteRequest(request);
+  if (refused) {
+    return refused;
+  }
+
+  const nextResponse = NextResponse.json({ result: { data: null, success: true } });
+  nextResponse.cookies.delete(SESSION_COOKIE_NAME);
+  nextResponse.cookies.delete(IMPERSONATOR_COOKIE_NAME);
+  nextResponse.cookies.delete(IMPERSONATOR_ID_COOKIE_NAME);
+  return nextResponse;
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  MOCK_IDP_PATH,
+  base64UrlEncode,
+  createCodeChallenge,
+  isMockIdpEnabled,
+  randomUrlSafeString,
+} from "@/lib/oidc";
+
+// Minimal OpenID provider for local development, enabled with OIDC_MOCK_IDP=true
+// (never in production builds, where every route answers 404).
+// Every authorization request is approved as the MOCK_IDP_EMAIL user (default: sso.user@example.com).
+// ID tokens are unsigned (alg "none").
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  expiresAt: number;
+}
+
+const pendingCodes = new Map<string, PendingCode>();
+
+function mockUser() {
+  const email = process.env.MOCK_IDP_EMAIL || "sso.user@example.com";
+  return {
+    sub: `mock|${email}`,
+    email,
+    email_verified: true,
+    given_name: "SSO",
+    family_name: "User",
+  };
+}
+
+function encodeJson(value: unknown): string {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function oauthError(error: string, status = 400) {
+  return NextResponse.json({ error }, { status });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  if (!isMockIdpEnabled()) {
+    return NextResponse.json({ error: "not_found" }, { status: 404 });
+  }
+
+  const { path } = await params;
+  const issuer = `${request.nextUrl.origin}${MOCK_IDP_PATH}`;
+  const { searchParams } = request.nextUrl;
+
+  switch (path.join("/")) {
+    case ".well-known/openid-configuration":
+      return NextResponse.json({
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        userinfo_endpoint: `${issuer}/userinfo`,
+        response_types_supported: ["code"],
+        code_challenge_methods_supported: ["S256"],
+        id_token_signing_alg_values_supported: ["none"],
+      });
+
+    case "authorize": {
+      const redirectUri = searchParams.get("redirect_uri");
+      const codeChallenge = searchParams.get("code_challenge");
+
+      if (!redirectUri || searchParams.get("response_type") !== "code") {
+        return oauthError("invalid_request");
+      }
+      if (!codeChallenge || searchParams.get("code_challenge_method") !== "S256") {
+        return oauthError("invalid_request");
+      }
+
+      const code = randomUrlSafeString();
+      pendingCodes.set(code, {
+        clientId: searchParams.get("client_id") ?? "",
+        redirectUri,
+        codeChallenge,
+        nonce: searchParams.get("nonce") ?? undefined,
+        expiresAt: Date.now() + 60 * 1000,
+      });
+
+      const callback = new URL(redirectUri);
+      callback.searchParams.set("code", code);
+      const state = searchParams.get("state");
+      if (state) {
+        callback.searchParams.set("state", state);
+      }
+      return NextResponse.redirect(callback);
+    }
+
+    case "userinfo":
+      return NextResponse.json(mockUser());
+
+    default:
+      return NextResponse.json({ error: "not_found" }, { status: 404 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  if (!isMockIdpEnabled()) {
+    return NextResponse.json({ error: "not_found" }, { status: 404 });
+  }
+
+  const { path } = await params;
+  if (path.join("/") !== "token") {
+    return NextResponse.json({ error: "not_found" }, { status: 404 });
+  }
+
+  const form = new URLSearchParams(await request.text());
+  const code = form.get("code") ?? "";
+  const pending = pendingCodes.get(code);
+  pendingCodes.delete(code);
+
+  if (form.get("grant_type") !== "authorization_code") {
+    return oauthError("unsupported_grant_type");
+  }
+  if (!pending || pending.expiresAt < Date.now()) {
+    return oauthError("invalid_grant");
+  }
+  if (pending.clientId !== form.get("client_id") || pending.redirectUri !== form.get("redirect_uri")) {
+    return oauthError("invalid_grant");
+  }
+  if ((await createCodeChallenge(form.get("code_verifier") ?? "")) !== pending.codeChallenge) {
+    return oauthError("invalid_grant");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const idToken = [
+    encodeJson({ alg: "none", typ: "JWT" }),
+    encodeJson({
+      ...mockUser(),
+      iss: `${request.nextUrl.origin}${MOCK_IDP_PATH}`,
+      aud: pending.clientId,
+      iat: now,
+      exp: now + 5 * 60,
+      nonce: pending.nonce,
+    }),
+    "",
+  ].join(".");
+
+  return NextResponse.json({
+    access_token: randomUrlSafeString(),
+    token_type: "Bearer",
+    expires_in: 300,
+    id_token: idToken,
+  });
+}
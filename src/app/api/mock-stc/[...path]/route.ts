@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isMockApiEnabled } from "@/services/utils/url";
+import { getMockBehaviour, handleMockRequest, mockErrorResponse } from "@/lib/mock-stc";
+
+// Built-in stand-in for the STC API, enabled with NEXT_PUBLIC_STC_MOCK_API=true (404 in
+// production builds).
+// Fixtures live in src/lib/mock-stc-fixtures.ts; see the README for latency and error injection.
+
+const REQUEST_ID_HEADER = "x-request-id";
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function readJsonBody(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
+
+async function handle(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  if (!isMockApiEnabled()) {
+    return NextResponse.json({ error: "not_found" }, { status: 404 });
+  }
+
+  const { path } = await params;
+  const behaviour = getMockBehaviour(request.headers);
+  const latency =
+    behaviour.minLatency + Math.random() * (behaviour.maxLatency - behaviour.minLatency);
+  if (latency > 0) {
+    await delay(latency);
+  }
+
+  const injectedStatus =
+    behaviour.forcedStatus ??
+    (Math.random() < behaviour.errorRate ? behaviour.errorStatus : undefined);
+
+  const authorization = request.headers.get("authorization");
+  const { status, body } = injectedStatus
+    ? mockErrorResponse(injectedStatus)
+    : handleMockRequest({
+        method: request.method,
+        path,
+        query: request.nextUrl.searchParams,
+        body: request.method === "GET" ? undefined : await readJsonBody(request),
+        token: authorization?.startsWith("Bearer ") ? authorization.slice(7) : null,
+      });
+
+  const response = NextResponse.json(body, { status });
+  response.headers.set(
+    REQUEST_ID_HEADER,
+    request.headers.get(REQUEST_ID_HEADER) ?? `mock-${crypto.randomUUID()}`
+  );
+  // Let the retry logic see a realistic hint when the mock pretends to be overloaded
+  if (status === 429 || status === 503) {
+    response.headers.set("retry-after", "1");
+  }
+  return response;
+}
+
+export { handle as GET, handle as POST, handle as PUT, handle as PATCH, handle as DELETE };
@@ -0,0 +1,16 @@
+import ForbiddenNotice from '@/components/forbidden-notice';
+
+interface ForbiddenPageProps {
+  searchParams: Promise<{ reason?: string; from?: string }>;
+}
+
+// Rendered by middleware (HTTP 403) when the user lacks access to a route
+export default async function ForbiddenPage({ searchParams }: ForbiddenPageProps) {
+  const { reason, from } = await searchParams;
+
+  return <ForbiddenNotice reason={reason} from={from} />;
+}
+
+export const metadata = {
+  title: 'STC - Access Denied',
+};
@@ -0,0 +1,20 @@
+import ForgotPasswordForm from '@/components/forgot-password-form';
+
+export default function ForgotPasswordPage() {
+  return (
+    <div className="min-h-screen surface-50 flex align-items-center justify-content-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-6">
+          <h1 className="text-4xl font-bold text-900 mb-2">
+            Forgot Password
+          </h1>
+          <p className="text-lg text-600">
+            We will help you get back into your account
+          </p>
+        </div>
+        
+        <ForgotPasswordForm />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import ForbiddenNotice from '@/components/forbidden-notice';
+import JobPostForm from '@/components/job-post-form';
+import { isBlockedByVerification } from '@/lib/permissions';
+import { getSessionUser, sessionCan } from '@/lib/session';
+
+export default async function NewJobPage() {
+  // Middleware applies the same rule; check again so the page never renders the form on its own
+  if (!(await sessionCan('job:create'))) {
+    const unverified = isBlockedByVerification(await getSessionUser(), 'job:create');
+    return <ForbiddenNotice reason={unverified ? 'unverified' : 'forbidden'} from="/jobs/new" />;
+  }
+
+  return (
+    <div className="min-h-screen surface-50 p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center mb-6">
+          <h1 className="text-4xl font-bold text-900 mb-4">
+            Post a Job
+          </h1>
+          <p className="text-xl text-600 mb-4">
+            Reach tradesmen looking for work in your area
+          </p>
+        </div>
+
+        <JobPostForm />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import JobBoard from '@/components/job-board';
+
+export default function JobsPage() {
+  return (
+    <div className="min-h-screen surface-50 p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center mb-6">
+          <h1 className="text-4xl font-bold text-900 mb-4">
+            Job Board
+          </h1>
+          <p className="text-xl text-600 mb-4">
+            Open jobs posted by companies on Skilled Trades Connect
+          </p>
+        </div>
+
+        <JobBoard />
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,9 @@ import "primereact/resources/themes/lara-light-cyan/theme.css";
 
 import { Providers } from "@/components/providers";
 import { getConfigDataForComponent } from "@/components/server-data-store";
+import { getInitialAuthState } from "@/lib/session";
+import { CONFIG_QUERY_KEY, CONFIG_QUERY_TAG } from "@/store/config";
+import { dehydrateQueries } from "@/store/query";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -35,6 +38,9 @@ export default async function RootLayout({
   let initialData = {};
   let ssrData = {};
 
+  // Resolve the signed-in user from the session cookie
+  const auth = await getInitialAuthState();
+
   try {
     // Get cached config data - this will be shared across all server components
     const cachedData = await getConfigDataForComponent("Root Layout");
@@ -42,6 +48,15 @@ export default async function RootLayout({
     // Prepare data for client hydration (existing atoms)
     initialData = {
       config: cachedData.config,
+      auth,
+      // Seed the query cache so client components do not refetch on mount.
+      // Fallback data is left out so the client retries the API.
+      queries:
+        cachedData.config && !cachedData.config.fallbackData
+          ? dehydrateQueries([
+              { key: CONFIG_QUERY_KEY, data: cachedData.config, tags: [CONFIG_QUERY_TAG] },
+            ])
+          : undefined,
     };
 
     // Prepare SSR data for SSR atoms hydration
@@ -59,7 +74,8 @@ export default async function RootLayout({
     });
   } catch (error) {
     console.error("Failed to fetch initial data in layout:", error);
-    // Continue without initial data - components will handle fallbacks
+    // Continue without config data - components will handle fallbacks
+    initialData = { auth };
   }
 
   return (
@@ -0,0 +1,26 @@
+import OidcSignInComplete from '@/components/oidc-sign-in-complete';
+
+interface OidcSignInPageProps {
+  searchParams: Promise<{ returnTo?: string }>;
+}
+
+export default async function OidcSignInPage({ searchParams }: OidcSignInPageProps) {
+  const { returnTo } = await searchParams;
+
+  return (
+    <div className="min-h-screen surface-50 flex align-items-center justify-content-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-6">
+          <h1 className="text-4xl font-bold text-900 mb-2">
+            Sign In
+          </h1>
+          <p className="text-lg text-600">
+            Finishing single sign-on
+          </p>
+        </div>
+
+        <OidcSignInComplete returnTo={returnTo} />
+      </div>
+    </div>
+  );
+}
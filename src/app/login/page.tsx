@@ -1,6 +1,12 @@
 import LoginForm from '@/components/login-form';
 
-export default function LoginPage() {
+interface LoginPageProps {
+  searchParams: Promise<{ returnTo?: string; error?: string }>;
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const { returnTo, error } = await searchParams;
+
   return (
     <div className="min-h-screen surface-50 flex align-items-center justify-content-center p-4">
       <div className="w-full max-w-md">
@@ -13,7 +19,7 @@ export default function LoginPage() {
           </p>
         </div>
         
-        <LoginForm />
+        <LoginForm returnTo={returnTo} ssoError={error} />
       </div>
     </div>
   );
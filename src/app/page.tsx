@@ -72,6 +72,15 @@ export default function Home() {
                   size="large"
                 />
               </Link>
+              <Link href="/jobs">
+                <Button 
+                  label="Job Board" 
+                  icon="pi pi-briefcase" 
+                  iconPos="right"
+                  outlined
+                  size="large"
+                />
+              </Link>
               <Link href="/instructions">
                 <Button 
                   label="Setup Instructions" 
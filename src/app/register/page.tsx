@@ -0,0 +1,20 @@
+import RegisterForm from '@/components/register-form';
+
+export default function RegisterPage() {
+  return (
+    <div className="min-h-screen surface-50 flex align-items-center justify-content-center p-4">
+      <div className="w-full max-w-40rem">
+        <div className="text-center mb-6">
+          <h1 className="text-4xl font-bold text-900 mb-2">
+            Create Account
+          </h1>
+          <p className="text-lg text-600">
+            Join Skilled Trades Connect as a tradesman or company
+          </p>
+        </div>
+        
+        <RegisterForm />
+      </div>
+    </div>
+  );
+}
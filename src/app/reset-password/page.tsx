@@ -0,0 +1,26 @@
+import ResetPasswordForm from '@/components/reset-password-form';
+
+interface ResetPasswordPageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+export default async function ResetPasswordPage({ searchParams }: ResetPasswordPageProps) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="min-h-screen surface-50 flex align-items-center justify-content-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-6">
+          <h1 className="text-4xl font-bold text-900 mb-2">
+            Reset Password
+          </h1>
+          <p className="text-lg text-600">
+            Choose a new password for your account
+          </p>
+        </div>
+        
+        <ResetPasswordForm token={token} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import VerifyEmailStatus from '@/components/verify-email-status';
+
+interface VerifyEmailPageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+export default async function VerifyEmailPage({ searchParams }: VerifyEmailPageProps) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="min-h-screen surface-50 flex align-items-center justify-content-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-6">
+          <h1 className="text-4xl font-bold text-900 mb-2">
+            Verify Email
+          </h1>
+          <p className="text-lg text-600">
+            Confirming your Skilled Trades Connect account
+          </p>
+        </div>
+        
+        <VerifyEmailStatus token={token} />
+      </div>
+    </div>
+  );
+}
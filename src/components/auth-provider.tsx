@@ -1,17 +1,69 @@
 'use client';
 
 import { useEffect } from 'react';
+import { useSetAtom } from 'jotai';
 import { useAuth } from '@/hooks/useAuth';
+import { clearStoredTokens, getStoredTokens, subscribeToAuthTokens } from '@/services';
+import { subscribeToAuthChanges } from '@/lib/auth-sync';
+import {
+  applyRemoteAuthChangeAtom,
+  logoutAtom,
+  refreshTokensAtom,
+  updateAuthAtom,
+} from '@/store/auth';
 
 interface AuthProviderProps {
   children: React.ReactNode;
+  // True when the root layout already resolved the session from the cookie
+  sessionResolved?: boolean;
 }
 
-export default function AuthProvider({ children }: AuthProviderProps) {
+export default function AuthProvider({ children, sessionResolved = false }: AuthProviderProps) {
   const { restoreSession, isAuthenticated } = useAuth();
+  const refreshTokens = useSetAtom(refreshTokensAtom);
+  const logout = useSetAtom(logoutAtom);
+  const updateAuth = useSetAtom(updateAuthAtom);
+  const applyRemoteAuthChange = useSetAtom(applyRemoteAuthChangeAtom);
 
+  // Mirror token rotation and expiry from the stcApi interceptors into authAtom
   useEffect(() => {
-    // Only attempt to restore session if not already authenticated
+    return subscribeToAuthTokens((event) => {
+      if (event.type === 'refreshed' && event.tokens.token) {
+        refreshTokens({
+          token: event.tokens.token,
+          refreshToken: event.tokens.refreshToken,
+          expiresAt: event.tokens.expiresAt,
+        });
+      } else if (event.type === 'expired') {
+        logout();
+      }
+    });
+  }, [refreshTokens, logout]);
+
+  // Apply sign-ins, sign-outs and token refreshes made in other tabs
+  useEffect(() => {
+    return subscribeToAuthChanges(applyRemoteAuthChange);
+  }, [applyRemoteAuthChange]);
+
+  useEffect(() => {
+    const { token, refreshToken, expiresAt } = getStoredTokens();
+
+    if (sessionResolved) {
+      // The server session is the source of truth; pick up the client-side token pair
+      if (isAuthenticated) {
+        if (token) {
+          updateAuth({ token, refreshToken, expiresAt });
+        }
+        return;
+      }
+
+      // An expired access token can still be renewed with the refresh token
+      if (!refreshToken) {
+        clearStoredTokens();
+        return;
+      }
+    }
+
     if (!isAuthenticated) {
       restoreSession().then((restored) => {
         if (restored) {
@@ -23,7 +75,7 @@ export default function AuthProvider({ children }: AuthProviderProps) {
         console.error('Failed to restore session:', error);
       });
     }
-  }, [restoreSession, isAuthenticated]);
+  }, [restoreSession, updateAuth, isAuthenticated, sessionResolved]);
 
   return <>{children}</>;
-}
\ No newline at end of file
+}
@@ -1,31 +1,17 @@
 'use client';
 
-import { useState, useEffect } from 'react';
 import { Card } from 'primereact/card';
 import { Button } from 'primereact/button';
 import { Chip } from 'primereact/chip';
 import { Divider } from 'primereact/divider';
 import Link from 'next/link';
 import { useAuth } from '@/hooks/useAuth';
+import { useVerification } from '@/hooks/useVerification';
 
 export default function AuthStatus() {
-  const [isClient, setIsClient] = useState(false);
+  // Auth state is hydrated from the server session, so it is safe to render immediately
   const { user, isAuthenticated, isLoading, signOut } = useAuth();
-
-  useEffect(() => {
-    setIsClient(true);
-  }, []);
-
-  if (!isClient) {
-    return (
-      <Card className="mb-4">
-        <div className="flex align-items-center gap-2">
-          <i className="pi pi-spin pi-spinner"></i>
-          <span>Loading authentication status...</span>
-        </div>
-      </Card>
-    );
-  }
+  const { isVerified, needsVerification, resendVerification, resendStatus } = useVerification();
 
   if (isLoading) {
     return (
@@ -72,6 +58,18 @@ export default function AuthStatus() {
                   </div>
                 )}
                 
+                <div className="flex align-items-center gap-2">
+                  <span className="text-sm font-medium text-700">Verification:</span>
+                  <Chip
+                    label={isVerified ? 'Verified' : 'Not Verified'}
+                    className={`${
+                      isVerified
+                        ? 'bg-green-100 text-green-800'
+                        : 'bg-yellow-100 text-yellow-800'
+                    }`}
+                  />
+                </div>
+                
                 {user.role && (
                   <div className="flex align-items-center gap-2">
                     <span className="text-sm font-medium text-700">Role:</span>
@@ -85,13 +83,35 @@ export default function AuthStatus() {
         
         <div className="flex flex-column gap-2">
           {isAuthenticated ? (
-            <Button
-              label="Sign Out"
-              icon="pi pi-sign-out"
-              onClick={signOut}
-              severity="secondary"
-              size="small"
-            />
+            <>
+              <Button
+                label="Sign Out"
+                icon="pi pi-sign-out"
+                onClick={signOut}
+                severity="secondary"
+                size="small"
+              />
+              <Link href="/account">
+                <Button
+                  label="Account Settings"
+                  icon="pi pi-cog"
+                  outlined
+                  size="small"
+                  className="w-full"
+                />
+              </Link>
+              {needsVerification && (
+                <Button
+                  label={resendStatus === 'sent' ? 'Email Sent' : 'Resend Verification'}
+                  icon={resendStatus === 'sent' ? 'pi pi-check' : 'pi pi-envelope'}
+                  onClick={resendVerification}
+                  loading={resendStatus === 'sending'}
+                  disabled={resendStatus === 'sent'}
+                  outlined
+                  size="small"
+                />
+              )}
+            </>
           ) : (
             <Link href="/login">
               <Button
@@ -111,7 +131,7 @@ export default function AuthStatus() {
           <strong>Authentication Demo:</strong> This shows the current authentication state managed by Jotai.
         </p>
         <p className="m-0">
-          JWT tokens are automatically stored in localStorage and restored on page reload.
+          The session lives in an httpOnly cookie and is resolved on the server before the page renders.
         </p>
       </div>
     </Card>
@@ -0,0 +1,38 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { useCan } from '@/hooks/useCan';
+import { useAuth } from '@/hooks/useAuth';
+import { isBlockedByVerification, type Action, type PermissionResource } from '@/lib/permissions';
+
+interface CanProps {
+  action: Action;
+  resource?: PermissionResource;
+  children: ReactNode;
+  // Rendered instead of the children when the permission is missing
+  fallback?: ReactNode;
+  // Rendered instead when only an unverified email address stands in the way (defaults to fallback)
+  unverifiedFallback?: ReactNode;
+}
+
+/**
+ * Render children only when the signed-in user may perform the action
+ */
+export default function Can({
+  action,
+  resource,
+  children,
+  fallback = null,
+  unverifiedFallback,
+}: CanProps) {
+  const allowed = useCan(action, resource);
+  const { user } = useAuth();
+
+  if (allowed) {
+    return <>{children}</>;
+  }
+  if (unverifiedFallback !== undefined && isBlockedByVerification(user, action, resource)) {
+    return <>{unverifiedFallback}</>;
+  }
+  return <>{fallback}</>;
+}
@@ -1,8 +1,7 @@
 "use client";
 
 import { Config } from "@/services";
-import { configAtom, updateConfigAtom } from "@/store/config";
-import { useAtom } from "jotai";
+import { useConfigQuery } from "@/hooks/useSSRData";
 import Link from "next/link";
 import { Button } from "primereact/button";
 import { Card } from "primereact/card";
@@ -14,33 +13,15 @@ interface ConfigDisplayProps {
 }
 
 export default function ConfigDisplay({ initialConfig }: ConfigDisplayProps) {
-  const [, updateConfig] = useAtom(updateConfigAtom);
-  const [config] = useAtom(configAtom);
+  // Cached GET /configs, seeded from the server render and revalidated in the background
+  const { data, error, isFetching, refetch } = useConfigQuery();
 
-  // Client-side config refresh using service layer
-  const refreshConfig = async () => {
-    updateConfig({ isLoading: true, error: null });
-
-    try {
-      const { configService } = await import("@/services");
-      const response = await configService.getConfig();
-
-      updateConfig({
-        config: response.result,
-        isLoading: false,
-        error: null,
-      });
-    } catch (error) {
-      console.error("Failed to refresh config:", error);
-      updateConfig({
-        isLoading: false,
-        error: "Failed to refresh config",
-      });
-    }
+  const refreshConfig = () => {
+    refetch().catch((err) => console.error("Failed to refresh config:", err));
   };
 
-  // Use current config data from store or fallback to initial data
-  const currentConfig = config.config || initialConfig;
+  // Use current config data from the query cache or fallback to initial data
+  const currentConfig = data || initialConfig;
 
   return (
     <Card className="p-4">
@@ -49,16 +30,20 @@ export default function ConfigDisplay({ initialConfig }: ConfigDisplayProps) {
           Interactive Configuration Display
         </h2>
         <Button
-          label={config.isLoading ? "Refreshing..." : "Refresh Config"}
+          label={isFetching ? "Refreshing..." : "Refresh Config"}
           icon="pi pi-refresh"
           onClick={refreshConfig}
-          disabled={config.isLoading}
-          loading={config.isLoading}
+          disabled={isFetching}
+          loading={isFetching}
         />
       </div>
 
-      {config.error && (
-        <Message severity="error" text={config.error} className="mb-4" />
+      {error && (
+        <Message
+          severity="error"
+          text={`Failed to refresh config: ${error.message}`}
+          className="mb-4"
+        />
       )}
 
       {currentConfig && (
@@ -0,0 +1,44 @@
+import Link from 'next/link';
+import { Card } from 'primereact/card';
+import { Button } from 'primereact/button';
+import { Message } from 'primereact/message';
+
+interface ForbiddenNoticeProps {
+  reason?: string;
+  from?: string;
+}
+
+const reasonMessages: Record<string, string> = {
+  forbidden: 'Your account does not have the role required to open this page.',
+  unverified: 'Please verify your email address before opening this page.',
+};
+
+export default function ForbiddenNotice({ reason, from }: ForbiddenNoticeProps) {
+  const message = (reason && reasonMessages[reason]) || reasonMessages.forbidden;
+
+  return (
+    <div className="min-h-screen surface-50 flex align-items-center justify-content-center p-4">
+      <Card className="w-full max-w-30rem">
+        <div className="text-center mb-4">
+          <div className="text-red-500 text-5xl mb-3">
+            <i className="pi pi-lock" style={{ fontSize: 'inherit' }}></i>
+          </div>
+          <h1 className="text-3xl font-bold text-900 mb-2 m-0">403 - Access Denied</h1>
+          {from && (
+            <p className="text-sm text-600 m-0">
+              You tried to open <code>{from}</code>
+            </p>
+          )}
+        </div>
+
+        <Message severity="warn" text={message} className="w-full mb-4" />
+
+        <div className="flex justify-content-center gap-2">
+          <Link href="/">
+            <Button label="Back to Home" icon="pi pi-home" outlined size="small" />
+          </Link>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import { Card } from 'primereact/card';
+import { Button } from 'primereact/button';
+import { InputText } from 'primereact/inputtext';
+import { Message } from 'primereact/message';
+import { Divider } from 'primereact/divider';
+import Link from 'next/link';
+import { authService, isCancelledError } from '@/services';
+import { useCancellable } from '@/hooks/useCancellable';
+
+export default function ForgotPasswordForm() {
+  const [email, setEmail] = useState('');
+  const [emailError, setEmailError] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const { run } = useCancellable();
+
+  const validateForm = (): boolean => {
+    if (!email) {
+      setEmailError('Email is required');
+      return false;
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      setEmailError('Please enter a valid email address');
+      return false;
+    }
+    return true;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      await run((signal) => authService.requestPasswordReset(email, { signal }));
+      setSubmitted(true);
+    } catch (error) {
+      if (isCancelledError(error)) {
+        return;
+      }
+      setError('We could not send the reset email. Please try again in a moment.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <Card className="p-4">
+        <div className="flex flex-column gap-4">
+          <Message
+            severity="success"
+            text={`If an account exists for ${email}, a password reset link is on its way.`}
+          />
+          <p className="text-sm text-600 m-0">
+            The link expires after a short time. Check your spam folder if it does not arrive.
+          </p>
+          <Link href="/login">
+            <Button label="Back to Sign In" icon="pi pi-sign-in" className="w-full" />
+          </Link>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-4">
+      <form onSubmit={handleSubmit}>
+        <div className="flex flex-column gap-4">
+          <p className="text-sm text-600 m-0">
+            Enter the email address you signed up with and we will send you a link to reset your password.
+          </p>
+
+          {/* Email Field */}
+          <div className="flex flex-column gap-2">
+            <label htmlFor="email" className="text-sm font-medium text-700">
+              Email Address
+            </label>
+            <InputText
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => {
+                setEmail(e.target.value);
+                setEmailError('');
+                setError('');
+              }}
+              placeholder="Enter your email"
+              className={emailError ? 'p-invalid' : ''}
+              disabled={isLoading}
+              autoComplete="email"
+            />
+            {emailError && (
+              <small className="text-red-500">{emailError}</small>
+            )}
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <Message severity="error" text={error} />
+          )}
+
+          {/* Submit Button */}
+          <Button
+            type="submit"
+            label={isLoading ? 'Sending...' : 'Send Reset Link'}
+            icon="pi pi-envelope"
+            loading={isLoading}
+            disabled={isLoading}
+            className="w-full"
+          />
+
+          <Divider />
+
+          <div className="text-center">
+            <Link href="/login">
+              <Button
+                label="Back to Sign In"
+                icon="pi pi-arrow-left"
+                link
+                size="small"
+                className="w-full"
+              />
+            </Link>
+          </div>
+        </div>
+      </form>
+    </Card>
+  );
+}
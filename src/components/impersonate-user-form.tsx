@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { Card } from 'primereact/card';
+import { Button } from 'primereact/button';
+import { InputText } from 'primereact/inputtext';
+import { Message } from 'primereact/message';
+import { useImpersonation } from '@/hooks/useImpersonation';
+
+/**
+ * Admin tool to reproduce what a tradesman or company user sees
+ */
+export default function ImpersonateUserForm() {
+  const [userId, setUserId] = useState('');
+  const { canImpersonate, impersonate, isWorking, error } = useImpersonation();
+
+  if (!canImpersonate) {
+    return null;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (userId.trim()) {
+      await impersonate(userId.trim());
+    }
+  };
+
+  return (
+    <Card className="mb-4">
+      <h3 className="text-lg font-medium text-900 mb-3 m-0">View as User</h3>
+      <form onSubmit={handleSubmit} className="flex flex-column gap-3">
+        <p className="text-sm text-600 m-0">
+          Sign in as a tradesman or company user to reproduce what they see. Your own session is
+          kept aside until you return to your account.
+        </p>
+        <div className="flex gap-2">
+          <InputText
+            id="impersonateUserId"
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+            placeholder="User ID"
+            className="flex-1"
+            disabled={isWorking}
+          />
+          <Button
+            type="submit"
+            label="View as User"
+            icon="pi pi-eye"
+            loading={isWorking}
+            disabled={isWorking || !userId.trim()}
+          />
+        </div>
+        {error && <Message severity="error" text={error} />}
+      </form>
+    </Card>
+  );
+}
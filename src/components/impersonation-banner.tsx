@@ -0,0 +1,42 @@
+'use client';
+
+import { Button } from 'primereact/button';
+import { Message } from 'primereact/message';
+import { useImpersonation } from '@/hooks/useImpersonation';
+
+/**
+ * Persistent notice shown while an admin views the app as another user
+ */
+export default function ImpersonationBanner() {
+  const { isImpersonating, impersonator, impersonatedUser, returnToMyAccount, isWorking, error } =
+    useImpersonation();
+
+  if (!isImpersonating) {
+    return null;
+  }
+
+  return (
+    <Message
+      severity="error"
+      className="w-full border-noround justify-content-start"
+      content={
+        <div className="flex flex-column md:flex-row md:align-items-center gap-2 w-full">
+          <span className="text-sm flex-1">
+            <i className="pi pi-eye mr-2"></i>
+            <strong>Viewing as {impersonatedUser?.email}.</strong> Everything you do is recorded
+            against your account ({impersonator?.email}).
+            {error && <span className="ml-2 font-medium">{error}</span>}
+          </span>
+          <Button
+            label="Return to my account"
+            icon="pi pi-sign-out"
+            size="small"
+            text
+            onClick={returnToMyAccount}
+            loading={isWorking}
+          />
+        </div>
+      }
+    />
+  );
+}
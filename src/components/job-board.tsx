@@ -0,0 +1,230 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Card } from 'primereact/card';
+import { Button } from 'primereact/button';
+import { Dialog } from 'primereact/dialog';
+import { InputTextarea } from 'primereact/inputtextarea';
+import { Message } from 'primereact/message';
+import { Paginator } from 'primereact/paginator';
+import { ProgressSpinner } from 'primereact/progressspinner';
+import { jobApplicationService, jobService, messageService, type Job } from '@/services';
+import Can from './can';
+import { useAuth } from '@/hooks/useAuth';
+import { usePaginatedList } from '@/hooks/useList';
+import { useMutation } from '@/hooks/useQuery';
+
+// Query key and tag of the job lists; posting a job invalidates them
+export const JOBS_QUERY_TAG = 'jobs';
+
+// Stand-in for an action the user gets once their email address is verified
+function VerifyFirstButton({ label, icon }: { label: string; icon: string }) {
+  return (
+    <Button
+      label={label}
+      icon={icon}
+      size="small"
+      outlined
+      disabled
+      tooltip="Verify your email address first"
+      tooltipOptions={{ position: 'top', showOnDisabled: true }}
+    />
+  );
+}
+
+function ApplyButton({ job }: { job: Job }) {
+  const { user } = useAuth();
+  const [applied, setApplied] = useState(false);
+  const { mutate: apply, isPending, error } = useMutation(() =>
+    jobApplicationService.create({
+      job_id: job.id,
+      tradesman_id: user?.tradesman_id ?? '',
+      company_id: job.company_id,
+    })
+  );
+
+  const handleApply = async () => {
+    try {
+      await apply();
+      setApplied(true);
+    } catch {
+      // Shown through `error`
+    }
+  };
+
+  return (
+    <div className="flex flex-column align-items-end gap-1">
+      <Button
+        label={applied ? 'Applied' : 'Apply'}
+        icon={applied ? 'pi pi-check' : 'pi pi-send'}
+        size="small"
+        loading={isPending}
+        disabled={applied || isPending}
+        onClick={handleApply}
+      />
+      {error && <small className="text-red-500">Could not apply: {error.message}</small>}
+    </div>
+  );
+}
+
+function MessageButton({ job }: { job: Job }) {
+  const { user } = useAuth();
+  const [visible, setVisible] = useState(false);
+  const [body, setBody] = useState('');
+  const [sent, setSent] = useState(false);
+  const { mutate: send, isPending, error } = useMutation((text: string) =>
+    messageService.create({
+      sender_id: user?.id ?? '',
+      company_id: job.company_id,
+      job_id: job.id,
+      ...(user?.tradesman_id ? { tradesman_id: user.tradesman_id } : {}),
+      body: text,
+    })
+  );
+
+  const handleSend = async () => {
+    try {
+      await send(body.trim());
+      setSent(true);
+      setBody('');
+      setVisible(false);
+    } catch {
+      // Shown through `error`
+    }
+  };
+
+  return (
+    <>
+      <Button
+        label={sent ? 'Message sent' : 'Message'}
+        icon={sent ? 'pi pi-check' : 'pi pi-comment'}
+        size="small"
+        outlined
+        onClick={() => setVisible(true)}
+      />
+      <Dialog
+        header={`Message about "${job.title}"`}
+        visible={visible}
+        onHide={() => setVisible(false)}
+        style={{ width: '32rem' }}
+        footer={
+          <Button
+            label="Send"
+            icon="pi pi-send"
+            loading={isPending}
+            disabled={isPending || !body.trim()}
+            onClick={handleSend}
+          />
+        }
+      >
+        <div className="flex flex-column gap-3">
+          <InputTextarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={5}
+            placeholder="Write to the company that posted this job"
+            disabled={isPending}
+          />
+          {error && <Message severity="error" text={`Could not send: ${error.message}`} />}
+        </div>
+      </Dialog>
+    </>
+  );
+}
+
+/**
+ * Paginated job listings; the page size comes from the job_board_page_size config value.
+ * Posting, applying and messaging are offered only when the permission rules allow them.
+ */
+export default function JobBoard() {
+  const { user } = useAuth();
+  const { items, total, page, pageSize, setPage, isLoading, isPlaceholderData, error } =
+    usePaginatedList(JOBS_QUERY_TAG, jobService.list, { tags: [JOBS_QUERY_TAG] });
+
+  return (
+    <Card>
+      <Can
+        action="job:create"
+        unverifiedFallback={
+          <div className="flex justify-content-end mb-3">
+            <VerifyFirstButton label="Post a Job" icon="pi pi-plus" />
+          </div>
+        }
+      >
+        <div className="flex justify-content-end mb-3">
+          <Link href="/jobs/new">
+            <Button label="Post a Job" icon="pi pi-plus" size="small" />
+          </Link>
+        </div>
+      </Can>
+
+      {error && (
+        <Message
+          severity="error"
+          className="w-full mb-3"
+          text={`Failed to load jobs: ${error.message}`}
+        />
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-content-center p-4">
+          <ProgressSpinner style={{ width: '2rem', height: '2rem' }} />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-600 text-center m-0">No jobs have been posted yet.</p>
+      ) : (
+        <ul className={`list-none p-0 m-0 ${isPlaceholderData ? 'opacity-60' : ''}`}>
+          {items.map((job) => (
+            <li
+              key={job.id}
+              className="flex justify-content-between gap-3 py-3 border-bottom-1 surface-border"
+            >
+              <div>
+                <div className="text-lg font-medium text-900">{job.title}</div>
+                {job.location && (
+                  <div className="text-sm text-600 mt-1">
+                    <i className="pi pi-map-marker mr-1"></i>
+                    {job.location}
+                  </div>
+                )}
+                {job.description && (
+                  <p className="text-sm text-700 mt-2 mb-0">{job.description}</p>
+                )}
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <Can
+                  action="job:apply"
+                  unverifiedFallback={<VerifyFirstButton label="Apply" icon="pi pi-send" />}
+                >
+                  <ApplyButton job={job} />
+                </Can>
+                {/* Companies don't message themselves about their own jobs */}
+                {job.company_id !== user?.company_id && (
+                  <Can
+                    action="message:send"
+                    unverifiedFallback={
+                      <VerifyFirstButton label="Message" icon="pi pi-comment" />
+                    }
+                  >
+                    <MessageButton job={job} />
+                  </Can>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {total > pageSize && (
+        <Paginator
+          className="mt-3"
+          first={(page - 1) * pageSize}
+          rows={pageSize}
+          totalRecords={total}
+          onPageChange={(event) => setPage(event.page + 1)}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Card } from 'primereact/card';
+import { Button } from 'primereact/button';
+import { InputText } from 'primereact/inputtext';
+import { InputTextarea } from 'primereact/inputtextarea';
+import { Message } from 'primereact/message';
+import { jobService, type EntityInput, type Job } from '@/services';
+import { useAuth } from '@/hooks/useAuth';
+import { useMutation } from '@/hooks/useQuery';
+import { JOBS_QUERY_TAG } from './job-board';
+
+/**
+ * Post a job to the board as the signed-in company (admins pick the company)
+ */
+export default function JobPostForm() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [title, setTitle] = useState('');
+  const [location, setLocation] = useState('');
+  const [description, setDescription] = useState('');
+  const [companyId, setCompanyId] = useState(user?.company_id ?? '');
+  const { mutate: createJob, isPending, error } = useMutation(
+    (job: EntityInput<Job>) => jobService.create(job),
+    { invalidates: [JOBS_QUERY_TAG] }
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!title.trim() || !companyId.trim()) {
+      return;
+    }
+
+    try {
+      await createJob({
+        title: title.trim(),
+        company_id: companyId.trim(),
+        ...(location.trim() ? { location: location.trim() } : {}),
+        ...(description.trim() ? { description: description.trim() } : {}),
+      });
+      router.push('/jobs');
+    } catch {
+      // Shown through `error`
+    }
+  };
+
+  return (
+    <Card>
+      <form onSubmit={handleSubmit} className="flex flex-column gap-4">
+        {!user?.company_id && (
+          <div className="flex flex-column gap-2">
+            <label htmlFor="jobCompanyId" className="text-sm font-medium text-700">
+              Company ID
+            </label>
+            <InputText
+              id="jobCompanyId"
+              value={companyId}
+              onChange={(e) => setCompanyId(e.target.value)}
+              placeholder="Company the job is posted for"
+              disabled={isPending}
+            />
+          </div>
+        )}
+
+        <div className="flex flex-column gap-2">
+          <label htmlFor="jobTitle" className="text-sm font-medium text-700">
+            Title
+          </label>
+          <InputText
+            id="jobTitle"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="e.g. Site electrician"
+            disabled={isPending}
+          />
+        </div>
+
+        <div className="flex flex-column gap-2">
+          <label htmlFor="jobLocation" className="text-sm font-medium text-700">
+            Location
+          </label>
+          <InputText
+            id="jobLocation"
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            placeholder="e.g. Manchester"
+            disabled={isPending}
+          />
+        </div>
+
+        <div className="flex flex-column gap-2">
+          <label htmlFor="jobDescription" className="text-sm font-medium text-700">
+            Description
+          </label>
+          <InputTextarea
+            id="jobDescription"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={5}
+            disabled={isPending}
+          />
+        </div>
+
+        {error && <Message severity="error" text={`Failed to post the job: ${error.message}`} />}
+
+        <div className="flex gap-2">
+          <Button
+            type="submit"
+            label="Post Job"
+            icon="pi pi-send"
+            loading={isPending}
+            disabled={isPending || !title.trim() || !companyId.trim()}
+          />
+          <Link href="/jobs">
+            <Button type="button" label="Cancel" outlined disabled={isPending} />
+          </Link>
+        </div>
+      </form>
+    </Card>
+  );
+}
@@ -4,7 +4,7 @@ import {
   ssrConfigAtom,
   ssrSourceAtom,
   ssrTimestampAtom,
-} from "@/components/server-data-store";
+} from "@/components/ssr-atoms";
 import { useConfig, useRefreshData } from "@/hooks/useSSRData";
 import { useAtom } from "jotai";
 import { Button } from "primereact/button";
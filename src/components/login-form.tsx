@@ -10,31 +10,126 @@ import { Message } from 'primereact/message';
 import { Divider } from 'primereact/divider';
 import Link from 'next/link';
 import { useAuth } from '@/hooks/useAuth';
+import type { AuthError } from '@/store/auth';
+import MfaChallengeForm from '@/components/mfa-challenge-form';
+import { sanitizeReturnTo } from '@/lib/route-access';
 
-export default function LoginForm() {
+// Seconds left until retryAt, ticking once per second
+function useRetryCountdown(retryAt?: number): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!retryAt) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  return retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+}
+
+function formatWait(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${String(seconds).padStart(2, '0')}s` : `${seconds}s`;
+}
+
+// Tailored message for each sign-in failure
+function renderAuthError(error: AuthError, secondsUntilRetry: number) {
+  switch (error.code) {
+    case 'rate_limited':
+    case 'account_locked':
+      return (
+        <Message
+          severity="warn"
+          text={
+            secondsUntilRetry > 0
+              ? `${error.message}. You can try again in ${formatWait(secondsUntilRetry)}.`
+              : `${error.message}. Please try again later.`
+          }
+        />
+      );
+    case 'unverified_account':
+      return (
+        <Message
+          severity="warn"
+          content={
+            <div className="text-sm">
+              <div className="font-medium mb-1">{error.message}</div>
+              <div>Check your inbox for the verification link we sent when you signed up.</div>
+            </div>
+          }
+        />
+      );
+    case 'network':
+    case 'offline':
+    case 'mfa_expired':
+      return <Message severity="warn" text={error.message} />;
+    case 'invalid_credentials':
+    case 'invalid_mfa_code':
+    case 'validation':
+    case 'server':
+    case 'unknown':
+      return <Message severity="error" text={error.message} />;
+  }
+}
+
+// Errors the OIDC route handlers report through ?error= on the login page
+const ssoErrorMessages: Record<string, string> = {
+  oidc_unavailable: 'Single sign-on is not configured for this environment.',
+  oidc_denied: 'Single sign-on was cancelled.',
+  oidc_failed: 'We could not sign you in with single sign-on. Please try again.',
+};
+
+// Label for the SSO button; the button is hidden when no provider is configured
+const ssoProviderName = process.env.NEXT_PUBLIC_OIDC_PROVIDER_NAME;
+
+interface LoginFormProps {
+  // Page to go back to after signing in; validated to stay on this origin
+  returnTo?: string;
+  // Error code from a failed single sign-on attempt
+  ssoError?: string;
+}
+
+export default function LoginForm({ returnTo, ssoError }: LoginFormProps) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [emailError, setEmailError] = useState('');
   const [passwordError, setPasswordError] = useState('');
   
-  const { signIn, isLoading, error, clearError, isAuthenticated } = useAuth();
+  const { signIn, isLoading, error, clearError, isAuthenticated, mfaChallenge } = useAuth();
   const router = useRouter();
+  const redirectTo = sanitizeReturnTo(returnTo);
 
-  // Redirect if already authenticated when component mounts
+  // The only navigation away from the form: on mount when already signed in, and once signing
+  // in (with or without a second factor) succeeds
   useEffect(() => {
     if (isAuthenticated) {
-      router.push('/config');
+      router.replace(redirectTo);
     }
-  }, [isAuthenticated, router]); // Include dependencies
+  }, [isAuthenticated, redirectTo, router]); // Include dependencies
 
-  // Clear errors when form values change
+  // Lockouts keep their error (and countdown) while the user edits the form
+  const isLockedOut = error?.code === 'rate_limited' || error?.code === 'account_locked';
+  const secondsUntilRetry = useRetryCountdown(error?.retryAt);
+
+  // Lift the lockout once the countdown reaches zero
   useEffect(() => {
-    if (error) {
+    if (error?.retryAt && secondsUntilRetry === 0) {
+      clearError();
+    }
+  }, [error, secondsUntilRetry, clearError]);
+
+  // Clear errors when form values change
+  const resetErrors = () => {
+    if (error && !isLockedOut) {
       clearError();
     }
     setEmailError('');
     setPasswordError('');
-  }, [email, password, error, clearError]);
+  };
 
   const validateForm = (): boolean => {
     let isValid = true;
@@ -60,6 +155,16 @@ export default function LoginForm() {
     return isValid;
   };
 
+  // Field-level messages: client validation first, then what the server reported
+  const emailFieldError =
+    emailError ||
+    error?.fieldErrors?.email ||
+    (error?.code === 'unverified_account' ? 'This email address is not verified yet' : '');
+  const passwordFieldError =
+    passwordError ||
+    error?.fieldErrors?.password ||
+    (error?.code === 'invalid_credentials' ? 'Check your email and password' : '');
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -67,15 +172,15 @@ export default function LoginForm() {
       return;
     }
 
-    const success = await signIn({ email, password });
-    
-    if (success) {
-      console.log('Login successful - redirecting to config page');
-      // Redirect immediately after successful login
-      router.push('/config');
-    }
+    // Success flips isAuthenticated, which redirects
+    await signIn({ email, password });
   };
 
+  // Accounts with two-factor authentication answer a challenge before the session exists
+  if (mfaChallenge) {
+    return <MfaChallengeForm />;
+  }
+
   return (
     <Card className="p-4">
       <form onSubmit={handleSubmit}>
@@ -89,14 +194,17 @@ export default function LoginForm() {
               id="email"
               type="email"
               value={email}
-              onChange={(e) => setEmail(e.target.value)}
+              onChange={(e) => {
+                setEmail(e.target.value);
+                resetErrors();
+              }}
               placeholder="Enter your email"
-              className={emailError ? 'p-invalid' : ''}
+              className={emailFieldError ? 'p-invalid' : ''}
               disabled={isLoading}
               autoComplete="email"
             />
-            {emailError && (
-              <small className="text-red-500">{emailError}</small>
+            {emailFieldError && (
+              <small className="text-red-500">{emailFieldError}</small>
             )}
           </div>
 
@@ -108,22 +216,29 @@ export default function LoginForm() {
             <Password
               id="password"
               value={password}
-              onChange={(e) => setPassword(e.target.value)}
+              onChange={(e) => {
+                setPassword(e.target.value);
+                resetErrors();
+              }}
               placeholder="Enter your password"
-              className={passwordError ? 'p-invalid' : ''}
+              className={passwordFieldError ? 'p-invalid' : ''}
               disabled={isLoading}
               feedback={false}
               toggleMask
               autoComplete="current-password"
             />
-            {passwordError && (
-              <small className="text-red-500">{passwordError}</small>
+            {passwordFieldError && (
+              <small className="text-red-500">{passwordFieldError}</small>
             )}
+            <Link href="/forgot-password" className="text-sm text-primary align-self-end">
+              Forgot your password?
+            </Link>
           </div>
 
           {/* Error Message */}
-          {error && (
-            <Message severity="error" text={error} />
+          {error && renderAuthError(error, secondsUntilRetry)}
+          {!error && ssoError && (
+            <Message severity="error" text={ssoErrorMessages[ssoError] ?? ssoErrorMessages.oidc_failed} />
           )}
 
           {/* Submit Button */}
@@ -132,19 +247,34 @@ export default function LoginForm() {
             label={isLoading ? 'Signing In...' : 'Sign In'}
             icon="pi pi-sign-in"
             loading={isLoading}
-            disabled={isLoading}
+            disabled={isLoading || (isLockedOut && secondsUntilRetry > 0)}
             className="w-full"
           />
 
+          {/* Single sign-on */}
+          {ssoProviderName && (
+            <a href={`/api/auth/oidc/login?returnTo=${encodeURIComponent(redirectTo)}`}>
+              <Button
+                type="button"
+                label={`Sign in with ${ssoProviderName}`}
+                icon="pi pi-building"
+                severity="secondary"
+                outlined
+                disabled={isLoading}
+                className="w-full"
+              />
+            </a>
+          )}
+
           <Divider />
 
           {/* Navigation Links */}
           <div className="text-center">
             <div className="flex flex-column gap-2">
-              <Link href="/config">
+              <Link href="/register">
                 <Button
-                  label="Continue as Guest"
-                  icon="pi pi-user"
+                  label="Create an Account"
+                  icon="pi pi-user-plus"
                   outlined
                   size="small"
                   className="w-full"
@@ -167,7 +297,7 @@ export default function LoginForm() {
             <h4 className="text-sm font-medium text-700 mb-2 m-0">Demo Information</h4>
             <p className="text-xs text-600 mb-2 m-0">
               This login form connects to the STC API at localhost:4000.
-              Authentication tokens are stored in localStorage and maintained across page reloads.
+              Signing in sets an httpOnly session cookie so the server knows who you are on every page load.
             </p>
             <p className="text-xs text-600 m-0">
               <strong>Note:</strong> Make sure the backend API is running to test authentication.
@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card } from 'primereact/card';
+import { Button } from 'primereact/button';
+import { InputOtp } from 'primereact/inputotp';
+import { InputText } from 'primereact/inputtext';
+import { Message } from 'primereact/message';
+import { useAuth } from '@/hooks/useAuth';
+import { mfaExpiredError } from '@/lib/auth-errors';
+
+const TOTP_LENGTH = 6;
+
+interface MfaChallengeFormProps {
+  // Called once the second factor is accepted and the session exists
+  onVerified?: () => void;
+}
+
+export default function MfaChallengeForm({ onVerified }: MfaChallengeFormProps) {
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const { verifyMfa, mfaChallenge, cancelMfaChallenge, isLoading, error, clearError } = useAuth();
+
+  // The server stops accepting the challenge at expiresAt; go back to the password step then.
+  // Only this form runs the timer, so the challenge is cancelled once.
+  useEffect(() => {
+    if (!mfaChallenge?.expiresAt) {
+      return;
+    }
+
+    const timer = setTimeout(
+      () => cancelMfaChallenge(mfaExpiredError()),
+      Math.max(0, mfaChallenge.expiresAt - Date.now())
+    );
+    return () => clearTimeout(timer);
+  }, [mfaChallenge, cancelMfaChallenge]);
+
+  const answer = useRecoveryCode ? recoveryCode.trim() : code;
+  const canSubmit = useRecoveryCode ? answer.length > 0 : answer.length === TOTP_LENGTH;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!canSubmit) {
+      return;
+    }
+
+    const success = await verifyMfa(
+      useRecoveryCode ? { recoveryCode: answer } : { code: answer }
+    );
+
+    if (success) {
+      onVerified?.();
+    } else {
+      setCode('');
+    }
+  };
+
+  const toggleMode = () => {
+    setUseRecoveryCode((current) => !current);
+    setCode('');
+    setRecoveryCode('');
+    clearError();
+  };
+
+  return (
+    <Card className="p-4">
+      <form onSubmit={handleSubmit}>
+        <div className="flex flex-column gap-4">
+          <div>
+            <h2 className="text-xl font-medium text-900 mb-2 m-0">Two-Factor Authentication</h2>
+            <p className="text-sm text-600 m-0">
+              {useRecoveryCode
+                ? 'Enter one of the recovery codes you saved when you turned on two-factor authentication. Each code works once.'
+                : 'Enter the 6-digit code from your authenticator app.'}
+            </p>
+          </div>
+
+          {useRecoveryCode ? (
+            <div className="flex flex-column gap-2">
+              <label htmlFor="recoveryCode" className="text-sm font-medium text-700">
+                Recovery Code
+              </label>
+              <InputText
+                id="recoveryCode"
+                value={recoveryCode}
+                onChange={(e) => {
+                  setRecoveryCode(e.target.value);
+                  clearError();
+                }}
+                placeholder="xxxx-xxxx"
+                className={error ? 'p-invalid' : ''}
+                disabled={isLoading}
+                autoComplete="off"
+                autoFocus
+              />
+            </div>
+          ) : (
+            <div className="flex justify-content-center">
+              <InputOtp
+                value={code}
+                onChange={(e) => {
+                  setCode(String(e.value ?? ''));
+                  clearError();
+                }}
+                length={TOTP_LENGTH}
+                integerOnly
+                invalid={!!error}
+                disabled={isLoading}
+                autoFocus
+              />
+            </div>
+          )}
+
+          {error && (
+            <Message severity={error.code === 'rate_limited' ? 'warn' : 'error'} text={error.message} />
+          )}
+
+          <Button
+            type="submit"
+            label={isLoading ? 'Verifying...' : 'Verify'}
+            icon="pi pi-shield"
+            loading={isLoading}
+            disabled={isLoading || !canSubmit}
+            className="w-full"
+          />
+
+          <div className="flex justify-content-between">
+            <Button
+              type="button"
+              label={useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+              link
+              size="small"
+              onClick={toggleMode}
+              disabled={isLoading}
+            />
+            <Button
+              type="button"
+              label="Back to sign in"
+              link
+              size="small"
+              onClick={() => cancelMfaChallenge()}
+              disabled={isLoading}
+            />
+          </div>
+        </div>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card } from 'primereact/card';
+import { Button } from 'primereact/button';
+import { Message } from 'primereact/message';
+import Link from 'next/link';
+import { useAuth } from '@/hooks/useAuth';
+import { sanitizeReturnTo } from '@/lib/route-access';
+
+interface OidcSignInCompleteProps {
+  returnTo?: string;
+}
+
+export default function OidcSignInComplete({ returnTo }: OidcSignInCompleteProps) {
+  const [failed, setFailed] = useState(false);
+  const { completeOidcSignIn } = useAuth();
+  const router = useRouter();
+  const redirectTo = sanitizeReturnTo(returnTo);
+
+  // The result cookie can only be read once, so guard against the effect running twice
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    if (attempted.current) {
+      return;
+    }
+    attempted.current = true;
+
+    completeOidcSignIn().then((success) => {
+      if (success) {
+        router.replace(redirectTo);
+      } else {
+        setFailed(true);
+      }
+    });
+  }, [completeOidcSignIn, redirectTo, router]);
+
+  if (!failed) {
+    return (
+      <Card className="p-4">
+        <div className="flex align-items-center gap-2">
+          <i className="pi pi-spin pi-spinner"></i>
+          <span>Signing you in...</span>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-4">
+      <div className="flex flex-column gap-4">
+        <Message severity="error" text="We could not complete single sign-on. Please try again." />
+        <Link href={`/login?returnTo=${encodeURIComponent(redirectTo)}`}>
+          <Button label="Back to Sign In" icon="pi pi-sign-in" className="w-full" />
+        </Link>
+      </div>
+    </Card>
+  );
+}
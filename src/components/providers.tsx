@@ -5,10 +5,15 @@ import { ReactNode } from 'react';
 import { useHydrateAtoms } from 'jotai/utils';
 import ErrorBoundary from './error-boundary';
 import AuthProvider from './auth-provider';
+import RouteGuard from './route-guard';
+import VerificationBanner from './verification-banner';
+import ImpersonationBanner from './impersonation-banner';
+import SessionTimeoutDialog from './session-timeout-dialog';
 import { SSRProvider } from './ssr-provider';
 import { Config } from '@/services';
 import { AuthState } from '@/store/auth';
 import { configAtom } from '@/store/config';
+import { DehydratedQueries, hydrateQueries, queryCacheAtom } from '@/store/query';
 import { authAtom } from '@/store/auth';
 
 interface ProvidersProps {
@@ -16,6 +21,8 @@ interface ProvidersProps {
   initialData?: {
     config?: Config;
     auth?: AuthState;
+    // Server-fetched query results that seed the client query cache
+    queries?: DehydratedQueries;
     [key: string]: unknown;
   };
   ssrData?: {
@@ -31,8 +38,13 @@ export function Providers({ children, initialData, ssrData }: ProvidersProps) {
       <Provider>
         <HydrateClientAtoms initialData={initialData}>
           <SSRProvider ssrData={ssrData}>
-            <AuthProvider>
-              {children}
+            <AuthProvider sessionResolved={!!initialData?.auth}>
+              <ImpersonationBanner />
+              <RouteGuard>
+                <VerificationBanner />
+                {children}
+              </RouteGuard>
+              <SessionTimeoutDialog />
             </AuthProvider>
           </SSRProvider>
         </HydrateClientAtoms>
@@ -46,6 +58,8 @@ interface HydrateClientAtomsProps {
   initialData?: {
     config?: Config;
     auth?: AuthState;
+    // Server-fetched query results that seed the client query cache
+    queries?: DehydratedQueries;
     [key: string]: unknown;
   };
 }
@@ -66,6 +80,10 @@ function HydrateClientAtoms({ children, initialData }: HydrateClientAtomsProps)
   if (initialData?.auth) {
     hydrateAtoms.push([authAtom, initialData.auth]);
   }
+
+  if (initialData?.queries) {
+    hydrateAtoms.push([queryCacheAtom, hydrateQueries(initialData.queries)]);
+  }
   
   useHydrateAtoms(hydrateAtoms);
   
@@ -0,0 +1,389 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card } from 'primereact/card';
+import { Button } from 'primereact/button';
+import { InputText } from 'primereact/inputtext';
+import { InputNumber } from 'primereact/inputnumber';
+import { Dropdown } from 'primereact/dropdown';
+import { SelectButton } from 'primereact/selectbutton';
+import { Password } from 'primereact/password';
+import { Message } from 'primereact/message';
+import { Divider } from 'primereact/divider';
+import Link from 'next/link';
+import { useAuth } from '@/hooks/useAuth';
+import type { AccountType, RegistrationData } from '@/services';
+
+const accountTypeOptions: { label: string; value: AccountType }[] = [
+  { label: 'Tradesman', value: 'tradesman' },
+  { label: 'Company', value: 'company' },
+];
+
+const tradeOptions = [
+  'Electrician',
+  'Plumber',
+  'Carpenter',
+  'HVAC Technician',
+  'Welder',
+  'Mason',
+  'Painter',
+  'Roofer',
+  'General Contractor',
+].map((trade) => ({ label: trade, value: trade }));
+
+interface RegisterFormValues {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  password: string;
+  confirmPassword: string;
+  // Tradesman fields
+  trade: string;
+  licenseNumber: string;
+  yearsOfExperience: number | null;
+  serviceArea: string;
+  // Company fields
+  companyName: string;
+  jobTitle: string;
+  companyWebsite: string;
+}
+
+type FieldErrors = Partial<Record<keyof RegisterFormValues, string>>;
+
+const initialValues: RegisterFormValues = {
+  firstName: '',
+  lastName: '',
+  email: '',
+  phone: '',
+  password: '',
+  confirmPassword: '',
+  trade: '',
+  licenseNumber: '',
+  yearsOfExperience: null,
+  serviceArea: '',
+  companyName: '',
+  jobTitle: '',
+  companyWebsite: '',
+};
+
+export default function RegisterForm() {
+  const [accountType, setAccountType] = useState<AccountType>('tradesman');
+  const [values, setValues] = useState<RegisterFormValues>(initialValues);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  const { signUp, isLoading, error, clearError, isAuthenticated } = useAuth();
+  const router = useRouter();
+
+  // Redirect if already authenticated
+  useEffect(() => {
+    if (isAuthenticated) {
+      router.push('/config');
+    }
+  }, [isAuthenticated, router]);
+
+  // Clear errors when form values change
+  const resetErrors = () => {
+    if (error) {
+      clearError();
+    }
+    setFieldErrors({});
+  };
+
+  const setValue = <K extends keyof RegisterFormValues>(key: K, value: RegisterFormValues[K]) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+    resetErrors();
+  };
+
+  const changeAccountType = (value: AccountType) => {
+    setAccountType(value);
+    resetErrors();
+  };
+
+  const validateForm = (): boolean => {
+    const errors: FieldErrors = {};
+
+    if (!values.firstName.trim()) {
+      errors.firstName = 'First name is required';
+    }
+    if (!values.lastName.trim()) {
+      errors.lastName = 'Last name is required';
+    }
+
+    // Email validation
+    if (!values.email) {
+      errors.email = 'Email is required';
+    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(values.email)) {
+      errors.email = 'Please enter a valid email address';
+    }
+
+    if (values.phone && !/^\+?[\d\s()-]{7,}$/.test(values.phone)) {
+      errors.phone = 'Please enter a valid phone number';
+    }
+
+    // Password validation
+    if (!values.password) {
+      errors.password = 'Password is required';
+    } else if (values.password.length < 8) {
+      errors.password = 'Password must be at least 8 characters';
+    }
+    if (values.confirmPassword !== values.password) {
+      errors.confirmPassword = 'Passwords do not match';
+    }
+
+    // Account type specific validation
+    if (accountType === 'tradesman') {
+      if (!values.trade) {
+        errors.trade = 'Please select your trade';
+      }
+      if (!values.serviceArea.trim()) {
+        errors.serviceArea = 'Service area is required';
+      }
+    } else {
+      if (!values.companyName.trim()) {
+        errors.companyName = 'Company name is required';
+      }
+      if (values.companyWebsite && !/^https?:\/\/\S+\.\S+$/.test(values.companyWebsite)) {
+        errors.companyWebsite = 'Website must start with http:// or https://';
+      }
+    }
+
+    setFieldErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const buildRegistrationData = (): RegistrationData => {
+    const base = {
+      email: values.email,
+      password: values.password,
+      firstName: values.firstName.trim(),
+      lastName: values.lastName.trim(),
+      phone: values.phone || undefined,
+    };
+
+    if (accountType === 'tradesman') {
+      return {
+        ...base,
+        accountType,
+        trade: values.trade,
+        licenseNumber: values.licenseNumber || undefined,
+        yearsOfExperience: values.yearsOfExperience ?? undefined,
+        serviceArea: values.serviceArea.trim(),
+      };
+    }
+
+    return {
+      ...base,
+      accountType,
+      companyName: values.companyName.trim(),
+      jobTitle: values.jobTitle || undefined,
+      companyWebsite: values.companyWebsite || undefined,
+    };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    const success = await signUp(buildRegistrationData());
+
+    if (success) {
+      console.log('Registration successful - redirecting to config page');
+      router.push('/config');
+    }
+  };
+
+  // Client-side validation wins over field errors reported by the server
+  const visibleFieldErrors: FieldErrors = { ...error?.fieldErrors, ...fieldErrors };
+
+  const renderError = (key: keyof RegisterFormValues) =>
+    visibleFieldErrors[key] && <small className="text-red-500">{visibleFieldErrors[key]}</small>;
+
+  const renderTextField = (
+    key: keyof RegisterFormValues,
+    label: string,
+    options: { type?: string; placeholder?: string; autoComplete?: string } = {}
+  ) => (
+    <div className="flex flex-column gap-2">
+      <label htmlFor={key} className="text-sm font-medium text-700">
+        {label}
+      </label>
+      <InputText
+        id={key}
+        type={options.type ?? 'text'}
+        value={String(values[key] ?? '')}
+        onChange={(e) => setValue(key, e.target.value)}
+        placeholder={options.placeholder}
+        className={visibleFieldErrors[key] ? 'p-invalid' : ''}
+        disabled={isLoading}
+        autoComplete={options.autoComplete}
+      />
+      {renderError(key)}
+    </div>
+  );
+
+  return (
+    <Card className="p-4">
+      <form onSubmit={handleSubmit}>
+        <div className="flex flex-column gap-4">
+          {/* Account Type */}
+          <div className="flex flex-column gap-2">
+            <span className="text-sm font-medium text-700">I am signing up as</span>
+            <SelectButton
+              value={accountType}
+              options={accountTypeOptions}
+              onChange={(e) => e.value && changeAccountType(e.value)}
+              disabled={isLoading}
+              className="w-full"
+            />
+          </div>
+
+          {/* Personal Details */}
+          <div className="grid">
+            <div className="col-12 md:col-6">
+              {renderTextField('firstName', 'First Name', { autoComplete: 'given-name' })}
+            </div>
+            <div className="col-12 md:col-6">
+              {renderTextField('lastName', 'Last Name', { autoComplete: 'family-name' })}
+            </div>
+          </div>
+          {renderTextField('email', 'Email Address', {
+            type: 'email',
+            placeholder: 'Enter your email',
+            autoComplete: 'email',
+          })}
+          {renderTextField('phone', 'Phone (optional)', { type: 'tel', autoComplete: 'tel' })}
+
+          {/* Password Fields */}
+          <div className="flex flex-column gap-2">
+            <label htmlFor="password" className="text-sm font-medium text-700">
+              Password
+            </label>
+            <Password
+              id="password"
+              value={values.password}
+              onChange={(e) => setValue('password', e.target.value)}
+              placeholder="At least 8 characters"
+              className={visibleFieldErrors.password ? 'p-invalid' : ''}
+              disabled={isLoading}
+              feedback={false}
+              toggleMask
+              autoComplete="new-password"
+            />
+            {renderError('password')}
+          </div>
+          <div className="flex flex-column gap-2">
+            <label htmlFor="confirmPassword" className="text-sm font-medium text-700">
+              Confirm Password
+            </label>
+            <Password
+              id="confirmPassword"
+              value={values.confirmPassword}
+              onChange={(e) => setValue('confirmPassword', e.target.value)}
+              placeholder="Repeat your password"
+              className={visibleFieldErrors.confirmPassword ? 'p-invalid' : ''}
+              disabled={isLoading}
+              feedback={false}
+              toggleMask
+              autoComplete="new-password"
+            />
+            {renderError('confirmPassword')}
+          </div>
+
+          <Divider align="left">
+            <span className="text-sm font-medium text-700">
+              {accountType === 'tradesman' ? 'Trade Details' : 'Company Details'}
+            </span>
+          </Divider>
+
+          {/* Tradesman Fields */}
+          {accountType === 'tradesman' && (
+            <>
+              <div className="flex flex-column gap-2">
+                <label htmlFor="trade" className="text-sm font-medium text-700">
+                  Trade
+                </label>
+                <Dropdown
+                  inputId="trade"
+                  value={values.trade}
+                  options={tradeOptions}
+                  onChange={(e) => setValue('trade', e.value)}
+                  placeholder="Select your trade"
+                  className={visibleFieldErrors.trade ? 'p-invalid' : ''}
+                  disabled={isLoading}
+                />
+                {renderError('trade')}
+              </div>
+              {renderTextField('serviceArea', 'Service Area', {
+                placeholder: 'City or postcode you work in',
+              })}
+              <div className="grid">
+                <div className="col-12 md:col-6">
+                  {renderTextField('licenseNumber', 'License Number (optional)')}
+                </div>
+                <div className="col-12 md:col-6">
+                  <div className="flex flex-column gap-2">
+                    <label htmlFor="yearsOfExperience" className="text-sm font-medium text-700">
+                      Years of Experience
+                    </label>
+                    <InputNumber
+                      inputId="yearsOfExperience"
+                      value={values.yearsOfExperience}
+                      onValueChange={(e) => setValue('yearsOfExperience', e.value ?? null)}
+                      min={0}
+                      max={60}
+                      disabled={isLoading}
+                    />
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Company Fields */}
+          {accountType === 'company' && (
+            <>
+              {renderTextField('companyName', 'Company Name', { autoComplete: 'organization' })}
+              {renderTextField('jobTitle', 'Your Job Title (optional)', {
+                autoComplete: 'organization-title',
+              })}
+              {renderTextField('companyWebsite', 'Company Website (optional)', {
+                type: 'url',
+                placeholder: 'https://example.com',
+              })}
+            </>
+          )}
+
+          {/* Error Message */}
+          {error && (
+            <Message severity="error" text={error.message} />
+          )}
+
+          {/* Submit Button */}
+          <Button
+            type="submit"
+            label={isLoading ? 'Creating Account...' : 'Create Account'}
+            icon="pi pi-user-plus"
+            loading={isLoading}
+            disabled={isLoading}
+            className="w-full"
+          />
+
+          <Divider />
+
+          {/* Navigation Links */}
+          <div className="text-center text-sm text-600">
+            Already have an account?{' '}
+            <Link href="/login" className="text-primary font-medium">
+              Sign in
+            </Link>
+          </div>
+        </div>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,271 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card } from 'primereact/card';
+import { Button } from 'primereact/button';
+import { Password } from 'primereact/password';
+import { Message } from 'primereact/message';
+import { Divider } from 'primereact/divider';
+import Link from 'next/link';
+import { authService, getErrorStatus, isCancelledError } from '@/services';
+import { useCancellable } from '@/hooks/useCancellable';
+
+interface ResetPasswordFormProps {
+  token?: string;
+}
+
+// 'unavailable': the token check itself failed (network, 5xx), so the link is neither good nor bad yet
+type ResetStatus = 'validating' | 'ready' | 'success' | 'expired' | 'invalid' | 'unavailable';
+
+// Map a failed token check or reset call onto the page state it should show
+function statusFromError(error: unknown): ResetStatus | null {
+  const status = getErrorStatus(error);
+  if (status === 410) {
+    return 'expired';
+  }
+  if (status === 400 || status === 404 || status === 422) {
+    return 'invalid';
+  }
+  return null;
+}
+
+export default function ResetPasswordForm({ token }: ResetPasswordFormProps) {
+  const [status, setStatus] = useState<ResetStatus>(token ? 'validating' : 'invalid');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+  const [confirmError, setConfirmError] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  // Bumped by "Try Again" to re-run the token check
+  const [checkAttempt, setCheckAttempt] = useState(0);
+  const { run } = useCancellable();
+
+  // Check the token up front so an expired link does not waste the user's effort
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+
+    const controller = new AbortController();
+
+    authService
+      .validateResetToken(token, { signal: controller.signal })
+      .then(() => setStatus('ready'))
+      .catch((error) => {
+        if (isCancelledError(error)) {
+          return;
+        }
+        // Don't ask for a new password until the link is known to be good
+        setStatus(statusFromError(error) ?? 'unavailable');
+      });
+
+    return () => controller.abort();
+  }, [token, checkAttempt]);
+
+  const retryTokenCheck = () => {
+    setStatus('validating');
+    setCheckAttempt((attempt) => attempt + 1);
+  };
+
+  const validateForm = (): boolean => {
+    let isValid = true;
+
+    if (!password) {
+      setPasswordError('Password is required');
+      isValid = false;
+    } else if (password.length < 8) {
+      setPasswordError('Password must be at least 8 characters');
+      isValid = false;
+    }
+
+    if (confirmPassword !== password) {
+      setConfirmError('Passwords do not match');
+      isValid = false;
+    }
+
+    return isValid;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!token || !validateForm()) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      await run((signal) => authService.resetPassword({ token, password }, { signal }));
+      setStatus('success');
+    } catch (error) {
+      if (isCancelledError(error)) {
+        return;
+      }
+      const nextStatus = statusFromError(error);
+      if (nextStatus) {
+        setStatus(nextStatus);
+      } else {
+        setError('We could not reset your password. Please try again in a moment.');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (status === 'validating') {
+    return (
+      <Card className="p-4">
+        <div className="flex align-items-center gap-2">
+          <i className="pi pi-spin pi-spinner"></i>
+          <span>Checking your reset link...</span>
+        </div>
+      </Card>
+    );
+  }
+
+  if (status === 'unavailable') {
+    return (
+      <Card className="p-4">
+        <div className="flex flex-column gap-4">
+          <Message
+            severity="error"
+            text="We could not check your reset link right now. Please try again in a moment."
+          />
+          <Button
+            label="Try Again"
+            icon="pi pi-refresh"
+            className="w-full"
+            onClick={retryTokenCheck}
+          />
+        </div>
+      </Card>
+    );
+  }
+
+  if (status === 'success' || status === 'expired' || status === 'invalid') {
+    const outcome = {
+      success: {
+        severity: 'success' as const,
+        text: 'Your password has been reset. You can now sign in with your new password.',
+        action: { href: '/login', label: 'Sign In', icon: 'pi pi-sign-in' },
+      },
+      expired: {
+        severity: 'warn' as const,
+        text: 'This reset link has expired. Request a new one to continue.',
+        action: { href: '/forgot-password', label: 'Request New Link', icon: 'pi pi-envelope' },
+      },
+      invalid: {
+        severity: 'error' as const,
+        text: 'This reset link is invalid or has already been used.',
+        action: { href: '/forgot-password', label: 'Request New Link', icon: 'pi pi-envelope' },
+      },
+    }[status];
+
+    return (
+      <Card className="p-4">
+        <div className="flex flex-column gap-4">
+          <Message severity={outcome.severity} text={outcome.text} />
+          <Link href={outcome.action.href}>
+            <Button label={outcome.action.label} icon={outcome.action.icon} className="w-full" />
+          </Link>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-4">
+      <form onSubmit={handleSubmit}>
+        <div className="flex flex-column gap-4">
+          {/* New Password Field */}
+          <div className="flex flex-column gap-2">
+            <label htmlFor="password" className="text-sm font-medium text-700">
+              New Password
+            </label>
+            <Password
+              id="password"
+              value={password}
+              onChange={(e) => {
+                setPassword(e.target.value);
+                setPasswordError('');
+                setConfirmError('');
+                setError('');
+              }}
+              placeholder="At least 8 characters"
+              className={passwordError ? 'p-invalid' : ''}
+              inputClassName="w-full"
+              disabled={isLoading}
+              toggleMask
+              promptLabel="Choose a password"
+              weakLabel="Too simple"
+              mediumLabel="Average complexity"
+              strongLabel="Complex password"
+              autoComplete="new-password"
+            />
+            {passwordError && (
+              <small className="text-red-500">{passwordError}</small>
+            )}
+          </div>
+
+          {/* Confirm Password Field */}
+          <div className="flex flex-column gap-2">
+            <label htmlFor="confirmPassword" className="text-sm font-medium text-700">
+              Confirm New Password
+            </label>
+            <Password
+              id="confirmPassword"
+              value={confirmPassword}
+              onChange={(e) => {
+                setConfirmPassword(e.target.value);
+                setConfirmError('');
+                setError('');
+              }}
+              placeholder="Repeat your new password"
+              className={confirmError ? 'p-invalid' : ''}
+              inputClassName="w-full"
+              disabled={isLoading}
+              feedback={false}
+              toggleMask
+              autoComplete="new-password"
+            />
+            {confirmError && (
+              <small className="text-red-500">{confirmError}</small>
+            )}
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <Message severity="error" text={error} />
+          )}
+
+          {/* Submit Button */}
+          <Button
+            type="submit"
+            label={isLoading ? 'Resetting...' : 'Reset Password'}
+            icon="pi pi-key"
+            loading={isLoading}
+            disabled={isLoading}
+            className="w-full"
+          />
+
+          <Divider />
+
+          <div className="text-center">
+            <Link href="/login">
+              <Button
+                label="Back to Sign In"
+                icon="pi pi-arrow-left"
+                link
+                size="small"
+                className="w-full"
+              />
+            </Link>
+          </div>
+        </div>
+      </form>
+    </Card>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { ReactNode, useEffect } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { useAuth } from '@/hooks/useAuth';
+import { buildLoginRedirect, evaluateRouteAccess } from '@/lib/route-access';
+import ForbiddenNotice from './forbidden-notice';
+
+interface RouteGuardProps {
+  children: ReactNode;
+}
+
+/**
+ * Client-side counterpart of middleware.ts, driven by the same route access table.
+ * Covers client navigations and sign-outs that happen without a full page load.
+ */
+export default function RouteGuard({ children }: RouteGuardProps) {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const { user, isLoading } = useAuth();
+
+  const decision = evaluateRouteAccess(pathname, user);
+  const search = searchParams.toString();
+  const needsLogin = !decision.allowed && decision.reason === 'unauthenticated';
+
+  useEffect(() => {
+    if (needsLogin && !isLoading) {
+      router.replace(buildLoginRedirect(pathname, search ? `?${search}` : ''));
+    }
+  }, [needsLogin, isLoading, pathname, search, router]);
+
+  if (decision.allowed) {
+    return <>{children}</>;
+  }
+
+  if (decision.reason === 'unauthenticated') {
+    // Redirecting to the login page
+    return null;
+  }
+
+  return <ForbiddenNotice reason={decision.reason} from={pathname} />;
+}
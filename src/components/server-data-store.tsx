@@ -2,29 +2,23 @@
 // Following the official Jotai SSR guide: https://jotai.org/docs/utilities/ssr
 
 import { fetchConfig } from "@/lib/api";
-import { Config } from "@/services";
-import { atom } from "jotai";
 import { cache } from "react";
-
-// Define atoms that will be used for SSR hydration
-// These atoms will be hydrated on the client using useHydrateAtoms
-export const ssrConfigAtom = atom<Config | null>(null);
-export const ssrTimestampAtom = atom<string>("");
-export const ssrSourceAtom = atom<string>("");
-
-// Combined derived atom for convenience
-export const ssrDataAtom = atom((get) => ({
-  config: get(ssrConfigAtom),
-  timestamp: get(ssrTimestampAtom),
-  source: get(ssrSourceAtom),
-}));
-
-// Helper type for SSR data structure
-export interface SSRData {
-  config: Config | null;
-  timestamp: string;
-  source: string;
-}
+import {
+  SSRData,
+  ssrConfigAtom,
+  ssrSourceAtom,
+  ssrTimestampAtom,
+} from "./ssr-atoms";
+
+// The atoms live in ssr-atoms.ts so client components can import them without the fetchers
+export {
+  prepareSSRData,
+  ssrConfigAtom,
+  ssrDataAtom,
+  ssrSourceAtom,
+  ssrTimestampAtom,
+} from "./ssr-atoms";
+export type { SSRData } from "./ssr-atoms";
 
 // Cached server-side data fetching using React's cache function
 // This ensures data is fetched once per request and shared across components
@@ -105,23 +99,3 @@ export async function prepareSSRDataForHydration(
 
   return hydrateAtoms;
 }
-
-// Synchronous version for immediate hydration (when data is already available)
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function prepareSSRData(data: Partial<SSRData>): Array<[any, any]> {
-  console.log("[prepareSSRData] Preparing SSR data for hydration:", data);
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const hydrateAtoms: Array<[any, any]> = [];
-
-  if (data.config !== undefined) {
-    hydrateAtoms.push([ssrConfigAtom, data.config]);
-  }
-  if (data.timestamp !== undefined) {
-    hydrateAtoms.push([ssrTimestampAtom, data.timestamp]);
-  }
-  if (data.source !== undefined) {
-    hydrateAtoms.push([ssrSourceAtom, data.source]);
-  }
-
-  return hydrateAtoms;
-}
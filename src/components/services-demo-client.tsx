@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import { useCancellable } from '@/hooks/useCancellable';
 import { Card } from 'primereact/card';
 import { Button } from 'primereact/button';
 import { Message } from 'primereact/message';
@@ -9,25 +10,62 @@ import Link from 'next/link';
 
 // Import services
 import { 
-  configService
+  configService,
+  INVALID_RESPONSE_CODE,
+  MOCK_API_PATH,
+  isMockApiEnabled,
+  toApiError,
+  type ApiError
 } from '@/services';
 
+// One line per failure, tailored to what went wrong
+function describeApiError(error: ApiError): string {
+  const requestId = error.requestId ? ` (request ${error.requestId})` : '';
+
+  switch (error.kind) {
+    case 'network':
+      return `Network error: ${error.message}`;
+    case 'timeout':
+      return `Timed out: ${error.message}`;
+    case 'cancelled':
+      return 'Request was cancelled';
+    case 'validation':
+      if (error.code === INVALID_RESPONSE_CODE) {
+        return `Unexpected response shape (${error.issues?.length ?? 0} issues): ${error.message}`;
+      }
+      return `Rejected as invalid (HTTP ${error.status}): ${error.message}${requestId}`;
+    case 'http':
+      return `HTTP ${error.status}: ${error.message}${requestId}`;
+    case 'unknown':
+      return `Unexpected error: ${error.message}`;
+  }
+}
+
 export default function ServicesDemoClient() {
   const [loading, setLoading] = useState<Record<string, boolean>>({});
   const [results, setResults] = useState<Record<string, unknown>>({});
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const { run } = useCancellable();
 
-  const handleServiceCall = async (serviceName: string, serviceCall: () => Promise<unknown>) => {
+  const handleServiceCall = async (
+    serviceName: string,
+    serviceCall: (signal: AbortSignal) => Promise<unknown>
+  ) => {
     setLoading(prev => ({ ...prev, [serviceName]: true }));
     setErrors(prev => ({ ...prev, [serviceName]: '' }));
     
     try {
-      const result = await serviceCall();
+      const result = await run(serviceCall);
       setResults(prev => ({ ...prev, [serviceName]: result }));
       console.log(`[${serviceName}] Success:`, result);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      setErrors(prev => ({ ...prev, [serviceName]: errorMessage }));
+      const apiError = toApiError(error);
+      // Left the page mid-call; nothing to report
+      if (apiError.kind === 'cancelled') {
+        console.log(`[${serviceName}] Cancelled`);
+        return;
+      }
+      setErrors(prev => ({ ...prev, [serviceName]: describeApiError(apiError) }));
       console.error(`[${serviceName}] Error:`, error);
     } finally {
       setLoading(prev => ({ ...prev, [serviceName]: false }));
@@ -35,11 +73,11 @@ export default function ServicesDemoClient() {
   };
 
   const testConfigService = () => {
-    handleServiceCall('config', () => configService.getConfig());
+    handleServiceCall('config', (signal) => configService.getConfig({ signal }));
   };
 
   const testConfigValue = () => {
-    handleServiceCall('configValue', () => configService.getConfigValue('appName'));
+    handleServiceCall('configValue', (signal) => configService.getConfigValue('appName', { signal }));
   };
 
   const renderServiceTest = (
@@ -174,7 +212,7 @@ export default function ServicesDemoClient() {
               <h4 className="font-medium text-900 mb-2">API Configuration:</h4>
               <ul className="pl-3">
                 <li className="mb-1">• <strong>STC Instance:</strong> Main API client with auth interceptors</li>
-                <li className="mb-1">• <strong>Base URL:</strong> {process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000'}</li>
+                <li className="mb-1">• <strong>Base URL:</strong> {isMockApiEnabled() ? `${MOCK_API_PATH} (built-in mock)` : process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000'}</li>
                 <li className="mb-1">• <strong>Timeout:</strong> 10 seconds</li>
                 <li className="mb-1">• <strong>Auth:</strong> Automatic Bearer token from localStorage</li>
                 <li className="mb-1">• <strong>Fallback:</strong> Graceful degradation with mock data</li>
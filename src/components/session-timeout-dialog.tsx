@@ -0,0 +1,75 @@
+'use client';
+
+import { Dialog } from 'primereact/dialog';
+import { Button } from 'primereact/button';
+import { Message } from 'primereact/message';
+import { useSessionTimeout } from '@/hooks/useSessionTimeout';
+
+function formatCountdown(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+/**
+ * "Stay signed in?" prompt shown shortly before the session token expires
+ */
+export default function SessionTimeoutDialog() {
+  const {
+    showWarning,
+    secondsLeft,
+    canExtend,
+    isExtending,
+    extendError,
+    staySignedIn,
+    signOut,
+  } = useSessionTimeout();
+
+  const footer = (
+    <div className="flex justify-content-end gap-2">
+      <Button
+        label="Sign Out"
+        icon="pi pi-sign-out"
+        severity="secondary"
+        outlined
+        onClick={signOut}
+        disabled={isExtending}
+      />
+      {canExtend && (
+        <Button
+          label="Stay Signed In"
+          icon="pi pi-check"
+          onClick={staySignedIn}
+          loading={isExtending}
+          autoFocus
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog
+      header="Stay signed in?"
+      visible={showWarning}
+      onHide={() => {
+        if (canExtend) {
+          staySignedIn();
+        }
+      }}
+      footer={footer}
+      closable={canExtend}
+      style={{ width: '28rem' }}
+      breakpoints={{ '640px': '90vw' }}
+    >
+      <div className="flex flex-column gap-3">
+        <p className="m-0 text-700">
+          Your session expires in <strong>{formatCountdown(secondsLeft)}</strong>.
+          {canExtend
+            ? ' Do you want to stay signed in?'
+            : ' Save your work and sign in again to continue.'}
+        </p>
+        {extendError && <Message severity="error" text={extendError} />}
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,45 @@
+// Client-safe half of the SSR store: atoms and hydration helpers.
+// server-data-store.tsx re-exports these next to the server-only fetchers.
+
+import { Config } from "@/services";
+import { atom } from "jotai";
+
+// Define atoms that will be used for SSR hydration
+// These atoms will be hydrated on the client using useHydrateAtoms
+export const ssrConfigAtom = atom<Config | null>(null);
+export const ssrTimestampAtom = atom<string>("");
+export const ssrSourceAtom = atom<string>("");
+
+// Combined derived atom for convenience
+export const ssrDataAtom = atom((get) => ({
+  config: get(ssrConfigAtom),
+  timestamp: get(ssrTimestampAtom),
+  source: get(ssrSourceAtom),
+}));
+
+// Helper type for SSR data structure
+export interface SSRData {
+  config: Config | null;
+  timestamp: string;
+  source: string;
+}
+
+// Synchronous version for immediate hydration (when data is already available)
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function prepareSSRData(data: Partial<SSRData>): Array<[any, any]> {
+  console.log("[prepareSSRData] Preparing SSR data for hydration:", data);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const hydrateAtoms: Array<[any, any]> = [];
+
+  if (data.config !== undefined) {
+    hydrateAtoms.push([ssrConfigAtom, data.config]);
+  }
+  if (data.timestamp !== undefined) {
+    hydrateAtoms.push([ssrTimestampAtom, data.timestamp]);
+  }
+  if (data.source !== undefined) {
+    hydrateAtoms.push([ssrSourceAtom, data.source]);
+  }
+
+  return hydrateAtoms;
+}
@@ -2,7 +2,7 @@
 
 import { ReactNode } from 'react';
 import { useHydrateAtoms } from 'jotai/utils';
-import { prepareSSRData, SSRData } from './server-data-store';
+import { prepareSSRData, SSRData } from './ssr-atoms';
 
 interface SSRProviderProps {
   children: ReactNode;
@@ -0,0 +1,235 @@
+'use client';
+
+import { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Card } from 'primereact/card';
+import { Button } from 'primereact/button';
+import { Chip } from 'primereact/chip';
+import { InputOtp } from 'primereact/inputotp';
+import { Message } from 'primereact/message';
+import { useTwoFactor } from '@/hooks/useTwoFactor';
+import { useImpersonation } from '@/hooks/useImpersonation';
+
+const TOTP_LENGTH = 6;
+
+// What the code input below the status is currently for
+type CodePurpose = 'confirm' | 'disable' | 'regenerate' | null;
+
+function RecoveryCodesPanel({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const [copied, setCopied] = useState(false);
+  const [copyFailed, setCopyFailed] = useState(false);
+
+  const downloadCodes = () => {
+    const blob = new Blob([`${codes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'stc-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // The clipboard can be unavailable (insecure origin) or denied; hand over the file instead
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+      setCopyFailed(false);
+    } catch (error) {
+      console.error('Failed to copy recovery codes:', error);
+      setCopyFailed(true);
+      downloadCodes();
+    }
+  };
+
+  return (
+    <div className="flex flex-column gap-3">
+      <Message
+        severity="warn"
+        text="Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator, and they will not be shown again."
+      />
+      {copyFailed && (
+        <Message
+          severity="info"
+          text="Copying is not available in this browser, so the codes were downloaded instead."
+        />
+      )}
+      <div className="grid surface-100 border-round p-3 m-0 font-mono">
+        {codes.map((code) => (
+          <div key={code} className="col-6 text-sm text-900">{code}</div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          label={copied ? 'Copied' : 'Copy'}
+          icon={copied ? 'pi pi-check' : 'pi pi-copy'}
+          outlined
+          size="small"
+          onClick={copyCodes}
+        />
+        <Button label="Download" icon="pi pi-download" outlined size="small" onClick={downloadCodes} />
+        <Button label="I have saved them" icon="pi pi-check" size="small" onClick={onDone} />
+      </div>
+    </div>
+  );
+}
+
+export default function TwoFactorSettings() {
+  const {
+    isEnabled,
+    enrollment,
+    recoveryCodes,
+    isWorking,
+    error,
+    startEnrollment,
+    confirmEnrollment,
+    cancelEnrollment,
+    disable,
+    regenerateRecoveryCodes,
+    dismissRecoveryCodes,
+  } = useTwoFactor();
+  const { isImpersonating } = useImpersonation();
+
+  const [code, setCode] = useState('');
+  const [purpose, setPurpose] = useState<CodePurpose>(null);
+
+  const askForCode = (next: CodePurpose) => {
+    setCode('');
+    setPurpose(next);
+  };
+
+  const handleStart = async () => {
+    if (await startEnrollment()) {
+      askForCode('confirm');
+    }
+  };
+
+  const handleCancel = () => {
+    cancelEnrollment();
+    askForCode(null);
+  };
+
+  const handleSubmitCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const actions = {
+      confirm: confirmEnrollment,
+      disable,
+      regenerate: regenerateRecoveryCodes,
+    };
+
+    if (!purpose || code.length !== TOTP_LENGTH) {
+      return;
+    }
+
+    if (await actions[purpose](code)) {
+      askForCode(null);
+    } else {
+      setCode('');
+    }
+  };
+
+  const codeForm = purpose && (
+    <form onSubmit={handleSubmitCode} className="flex flex-column gap-3">
+      <label className="text-sm font-medium text-700">
+        Enter the 6-digit code from your authenticator app
+      </label>
+      <InputOtp
+        value={code}
+        onChange={(e) => setCode(String(e.value ?? ''))}
+        length={TOTP_LENGTH}
+        integerOnly
+        invalid={!!error}
+        disabled={isWorking}
+        autoFocus
+      />
+      <div className="flex gap-2">
+        <Button
+          type="submit"
+          label={
+            purpose === 'confirm'
+              ? 'Turn On'
+              : purpose === 'disable'
+                ? 'Turn Off'
+                : 'Generate New Codes'
+          }
+          severity={purpose === 'disable' ? 'danger' : undefined}
+          loading={isWorking}
+          disabled={isWorking || code.length !== TOTP_LENGTH}
+          size="small"
+        />
+        <Button type="button" label="Cancel" link size="small" onClick={handleCancel} disabled={isWorking} />
+      </div>
+    </form>
+  );
+
+  return (
+    <Card className="mb-4">
+      <div className="flex justify-content-between align-items-center mb-3">
+        <h3 className="text-lg font-medium text-900 m-0">Two-Factor Authentication</h3>
+        <Chip
+          label={isEnabled ? 'On' : 'Off'}
+          className={isEnabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}
+        />
+      </div>
+
+      <div className="flex flex-column gap-4">
+        <p className="text-sm text-600 m-0">
+          Ask for a code from an authenticator app (Google Authenticator, 1Password, Authy...) every
+          time you sign in with your password.
+        </p>
+
+        {error && <Message severity="error" text={error} />}
+
+        {isImpersonating ? (
+          <Message severity="info" text="Two-factor settings cannot be changed while viewing as another user." />
+        ) : recoveryCodes ? (
+          <RecoveryCodesPanel codes={recoveryCodes} onDone={dismissRecoveryCodes} />
+        ) : enrollment ? (
+          <div className="flex flex-column gap-3">
+            <p className="text-sm text-700 m-0">
+              Scan this QR code with your authenticator app, then enter the code it shows.
+            </p>
+            <div className="flex justify-content-center surface-0 p-3 border-round">
+              <QRCodeSVG value={enrollment.otpauthUrl} size={180} />
+            </div>
+            <div className="text-sm text-600">
+              Can&apos;t scan it? Enter this key instead:{' '}
+              <code className="text-900 font-medium">{enrollment.secret}</code>
+            </div>
+            {codeForm}
+          </div>
+        ) : purpose ? (
+          codeForm
+        ) : isEnabled ? (
+          <div className="flex gap-2">
+            <Button
+              label="New Recovery Codes"
+              icon="pi pi-refresh"
+              outlined
+              size="small"
+              onClick={() => askForCode('regenerate')}
+            />
+            <Button
+              label="Turn Off"
+              icon="pi pi-times"
+              severity="danger"
+              outlined
+              size="small"
+              onClick={() => askForCode('disable')}
+            />
+          </div>
+        ) : (
+          <Button
+            label="Set Up Two-Factor Authentication"
+            icon="pi pi-shield"
+            loading={isWorking}
+            onClick={handleStart}
+            className="align-self-start"
+            size="small"
+          />
+        )}
+      </div>
+    </Card>
+  );
+}
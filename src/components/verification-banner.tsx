@@ -0,0 +1,46 @@
+'use client';
+
+import { Button } from 'primereact/button';
+import { Message } from 'primereact/message';
+import { useVerification } from '@/hooks/useVerification';
+
+/**
+ * Persistent reminder shown to signed-in users who have not verified their email yet
+ */
+export default function VerificationBanner() {
+  const { needsVerification, resendVerification, resendStatus } = useVerification();
+
+  if (!needsVerification) {
+    return null;
+  }
+
+  return (
+    <Message
+      severity="warn"
+      className="w-full border-noround justify-content-start"
+      content={
+        <div className="flex flex-column md:flex-row md:align-items-center gap-2 w-full">
+          <span className="text-sm flex-1">
+            <strong>Please verify your email address.</strong> Posting jobs, applying to jobs and
+            messaging are disabled until you confirm the link we sent you.
+          </span>
+          {resendStatus === 'sent' ? (
+            <span className="text-sm font-medium">
+              <i className="pi pi-check mr-1"></i>
+              Verification email sent
+            </span>
+          ) : (
+            <Button
+              label={resendStatus === 'error' ? 'Retry Sending Email' : 'Resend Email'}
+              icon="pi pi-envelope"
+              size="small"
+              text
+              onClick={resendVerification}
+              loading={resendStatus === 'sending'}
+            />
+          )}
+        </div>
+      }
+    />
+  );
+}
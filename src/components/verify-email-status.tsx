@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Card } from 'primereact/card';
+import { Button } from 'primereact/button';
+import { Message } from 'primereact/message';
+import Link from 'next/link';
+import { authService, getErrorStatus } from '@/services';
+import { useAuth } from '@/hooks/useAuth';
+import { useVerification } from '@/hooks/useVerification';
+
+interface VerifyEmailStatusProps {
+  token?: string;
+}
+
+type VerifyStatus = 'verifying' | 'success' | 'expired' | 'invalid' | 'error';
+
+export default function VerifyEmailStatus({ token }: VerifyEmailStatusProps) {
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'invalid');
+  const { isAuthenticated } = useAuth();
+  const { markVerified, resendVerification, resendStatus } = useVerification();
+
+  // Verification tokens are single use, so guard against the effect running twice
+  const attemptedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!token || attemptedToken.current === token) {
+      return;
+    }
+    attemptedToken.current = token;
+
+    authService
+      .verifyEmail(token)
+      .then((response) => {
+        markVerified(response.result.data ?? undefined);
+        setStatus('success');
+      })
+      .catch((error) => {
+        console.error('Email verification error:', error);
+        const errorStatus = getErrorStatus(error);
+        if (errorStatus === 410) {
+          setStatus('expired');
+        } else if (errorStatus === 400 || errorStatus === 404 || errorStatus === 422) {
+          setStatus('invalid');
+        } else {
+          setStatus('error');
+        }
+      });
+  }, [token, markVerified]);
+
+  if (status === 'verifying') {
+    return (
+      <Card className="p-4">
+        <div className="flex align-items-center gap-2">
+          <i className="pi pi-spin pi-spinner"></i>
+          <span>Verifying your email address...</span>
+        </div>
+      </Card>
+    );
+  }
+
+  const messages: Record<Exclude<VerifyStatus, 'verifying'>, { severity: 'success' | 'warn' | 'error'; text: string }> = {
+    success: { severity: 'success', text: 'Your email address is verified. All features are now available.' },
+    expired: { severity: 'warn', text: 'This verification link has expired.' },
+    invalid: { severity: 'error', text: 'This verification link is invalid or has already been used.' },
+    error: { severity: 'error', text: 'We could not verify your email right now. Please try again in a moment.' },
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex flex-column gap-4">
+        <Message severity={messages[status].severity} text={messages[status].text} />
+
+        {status !== 'success' && isAuthenticated && (
+          resendStatus === 'sent' ? (
+            <Message severity="info" text="A new verification email is on its way." />
+          ) : (
+            <Button
+              label="Send a New Verification Email"
+              icon="pi pi-envelope"
+              outlined
+              onClick={resendVerification}
+              loading={resendStatus === 'sending'}
+              className="w-full"
+            />
+          )
+        )}
+
+        {status !== 'success' && !isAuthenticated && (
+          <p className="text-sm text-600 m-0">
+            Sign in to request a new verification email.
+          </p>
+        )}
+
+        <Link href={isAuthenticated ? '/config' : '/login'}>
+          <Button
+            label={isAuthenticated ? 'Continue' : 'Sign In'}
+            icon={isAuthenticated ? 'pi pi-arrow-right' : 'pi pi-sign-in'}
+            className="w-full"
+          />
+        </Link>
+      </div>
+    </Card>
+  );
+}
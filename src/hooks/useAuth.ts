@@ -1,15 +1,30 @@
-import { authService, type AuthCredentials } from "@/services";
+import {
+  authService,
+  getStoredTokens,
+  isCancelledError,
+  isMfaChallenge,
+  resolveTokenExpiry,
+  toApiError,
+  type AuthCredentials,
+  type LoginResponse,
+  type RegistrationData,
+} from "@/services";
 import {
   authAtom,
+  cancelMfaChallengeAtom,
   currentUserAtom,
   isAuthenticatedAtom,
   loginAtom,
   logoutAtom,
+  mfaChallengeAtom,
   setAuthErrorAtom,
   setAuthLoadingAtom,
+  startMfaChallengeAtom,
 } from "@/store/auth";
+import { mfaExpiredError, toAuthError, toMfaError } from "@/lib/auth-errors";
 import { useAtom } from "jotai";
 import { useCallback } from "react";
+import { useCancellable } from "./useCancellable";
 
 export const useAuth = () => {
   const [authState] = useAtom(authAtom);
@@ -19,60 +34,179 @@ export const useAuth = () => {
   const [, setLoading] = useAtom(setAuthLoadingAtom);
   const [isAuthenticated] = useAtom(isAuthenticatedAtom);
   const [currentUser] = useAtom(currentUserAtom);
+  const [mfaChallenge] = useAtom(mfaChallengeAtom);
+  const [, startMfaChallenge] = useAtom(startMfaChallengeAtom);
+  const [, cancelMfaChallenge] = useAtom(cancelMfaChallengeAtom);
+  // Sign-in requests are dropped when the user navigates away; session restore only on unmount
+  const { run } = useCancellable();
+  const { run: runUntilUnmount } = useCancellable({ cancelOnRouteChange: false });
+
+  // Store the user and token pair returned by sign-in or registration
+  const applyLoginResponse = useCallback(
+    ({ user, token, refreshToken, expiresIn }: LoginResponse) => {
+      login({
+        user,
+        token,
+        refreshToken: refreshToken ?? null,
+        expiresAt: resolveTokenExpiry(token, expiresIn),
+      });
+    },
+    [login]
+  );
 
-  // Login function
+  // Login function - resolves false while a two-factor challenge is pending
   const signIn = useCallback(
     async (credentials: AuthCredentials): Promise<boolean> => {
       setLoading(true);
 
       try {
-        const response = await authService.login(credentials);
-        console.log(response);
-        login({
-          user: response.result.data.user,
-          token: response.result.data.token,
-        });
+        const response = await run((signal) => authService.createSession(credentials, { signal }));
+        const data = response.result.data;
+
+        if (isMfaChallenge(data)) {
+          startMfaChallenge({
+            mfaToken: data.mfaToken,
+            expiresAt: data.expiresIn ? Date.now() + data.expiresIn * 1000 : null,
+          });
+          return false;
+        }
+
+        applyLoginResponse(data);
         return true;
       } catch (error) {
+        if (isCancelledError(error)) {
+          setLoading(false);
+          return false;
+        }
         console.error("Login error:", error);
-        const errorMessage = "Login failed";
+        setError(toAuthError(error));
+        return false;
+      }
+    },
+    [run, applyLoginResponse, startMfaChallenge, setError, setLoading]
+  );
 
-        if (error && typeof error === "object" && "response" in error) {
-          // Could handle specific error cases here if needed
-          console.log("Response error details:", error);
+  // Second sign-in step with a TOTP code or a recovery code
+  const verifyMfa = useCallback(
+    async (answer: { code?: string; recoveryCode?: string }): Promise<boolean> => {
+      if (!mfaChallenge) {
+        return false;
+      }
+      if (mfaChallenge.expiresAt !== null && mfaChallenge.expiresAt <= Date.now()) {
+        cancelMfaChallenge(mfaExpiredError());
+        return false;
+      }
+
+      setLoading(true);
+
+      try {
+        const response = await run((signal) =>
+          authService.createMfaSession({ mfaToken: mfaChallenge.mfaToken, ...answer }, { signal })
+        );
+        applyLoginResponse(response.result.data);
+        return true;
+      } catch (error) {
+        if (isCancelledError(error)) {
+          setLoading(false);
+          return false;
         }
+        console.error("Two-factor verification error:", error);
+        const authError = toMfaError(error);
 
-        setError(errorMessage);
+        // An expired challenge cannot be retried; go back to the password step
+        if (authError.code === "mfa_expired") {
+          cancelMfaChallenge(authError);
+        } else {
+          setError(authError);
+        }
         return false;
       }
     },
-    [login, setError, setLoading]
+    [run, mfaChallenge, applyLoginResponse, cancelMfaChallenge, setError, setLoading]
   );
 
+  // Registration function - signs the new user in on success
+  const signUp = useCallback(
+    async (data: RegistrationData): Promise<boolean> => {
+      setLoading(true);
+
+      try {
+        const response = await run((signal) => authService.createAccount(data, { signal }));
+        applyLoginResponse(response.result.data);
+        return true;
+      } catch (error) {
+        if (isCancelledError(error)) {
+          setLoading(false);
+          return false;
+        }
+        console.error("Registration error:", error);
+
+        if (toApiError(error).status === 409) {
+          const message = "An account with this email already exists";
+          setError({ code: "validation", message, fieldErrors: { email: message } });
+        } else {
+          setError(toAuthError(error));
+        }
+        return false;
+      }
+    },
+    [run, applyLoginResponse, setError, setLoading]
+  );
+
+  // Pick up the session created by the OIDC callback route
+  const completeOidcSignIn = useCallback(async (): Promise<boolean> => {
+    setLoading(true);
+
+    try {
+      const response = await run((signal) => authService.completeOidcSession({ signal }));
+      applyLoginResponse(response.result.data);
+      return true;
+    } catch (error) {
+      if (isCancelledError(error)) {
+        setLoading(false);
+        return false;
+      }
+      console.error("OIDC sign-in error:", error);
+      setError(toAuthError(error));
+      return false;
+    }
+  }, [run, applyLoginResponse, setError, setLoading]);
+
   // Logout function
   const signOut = useCallback(() => {
     authService.signOut();
     logout();
+    authService.destroySession().catch((error) => {
+      console.error("Failed to clear session cookie:", error);
+    });
   }, [logout]);
 
   // Decode JWT and restore session
   const restoreSession = useCallback(async (): Promise<boolean> => {
-    const token =
-      typeof window !== "undefined" ? localStorage.getItem("token") : null;
+    const { token, refreshToken } = getStoredTokens();
 
-    if (!token) {
+    if (!token && !refreshToken) {
       return false;
     }
 
     setLoading(true);
 
     try {
-      const response = await authService.decodeJWT();
+      const response = await runUntilUnmount((signal) => authService.decodeJWT(undefined, { signal }));
+
+      // Re-read the tokens: the interceptor may have refreshed them during the call
+      const tokens = getStoredTokens();
 
-      if (response.result.data) {
+      if (response.result.data && tokens.token) {
         login({
           user: response.result.data,
-          token,
+          token: tokens.token,
+          refreshToken: tokens.refreshToken,
+          expiresAt: tokens.expiresAt,
+        });
+        // Make sure the server sees the restored session on the next request
+        authService.updateSession(tokens.token).catch((error) => {
+          console.error("Failed to update session cookie:", error);
         });
         return true;
       } else {
@@ -81,16 +215,21 @@ export const useAuth = () => {
         return false;
       }
     } catch (error) {
+      // Abandoned, not rejected: keep the tokens so the next attempt can use them
+      if (isCancelledError(error)) {
+        setLoading(false);
+        return false;
+      }
       console.error("Session restore error:", error);
       // Invalid token, remove it
       signOut();
       return false;
     }
-  }, [login, signOut, setLoading]);
+  }, [runUntilUnmount, login, signOut, setLoading]);
 
   // Clear error
   const clearError = useCallback(() => {
-    setError("");
+    setError(null);
   }, [setError]);
 
   return {
@@ -100,9 +239,14 @@ export const useAuth = () => {
     isAuthenticated,
     isLoading: authState.isLoading,
     error: authState.error,
+    mfaChallenge,
 
     // Actions
     signIn,
+    verifyMfa,
+    cancelMfaChallenge,
+    signUp,
+    completeOidcSignIn,
     signOut,
     restoreSession,
     clearError,
@@ -0,0 +1,11 @@
+import { can, type Action, type PermissionResource } from "@/lib/permissions";
+import { useAuth } from "./useAuth";
+
+/**
+ * Check a permission for the signed-in user.
+ * Prefer this (or <Can>) over comparing `user.role` in components.
+ */
+export const useCan = (action: Action, resource?: PermissionResource): boolean => {
+  const { user } = useAuth();
+  return can(user, action, resource);
+};
@@ -0,0 +1,41 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+
+interface UseCancellableOptions {
+  // Set to false for work that should survive navigation, e.g. restoring the session
+  cancelOnRouteChange?: boolean;
+}
+
+/**
+ * Hand service calls an AbortSignal that fires when the component unmounts or the route changes:
+ * `run((signal) => configService.getConfig({ signal }))`
+ * Aborted calls reject with a "cancelled" ApiError; check `isCancelledError` and drop them quietly.
+ */
+export function useCancellable({ cancelOnRouteChange = true }: UseCancellableOptions = {}) {
+  const pathname = usePathname();
+  const [controllers] = useState(() => new Set<AbortController>());
+
+  const cancelAll = useCallback(() => {
+    controllers.forEach((controller) => controller.abort());
+    controllers.clear();
+  }, [controllers]);
+
+  // The cleanup runs on unmount and, when enabled, whenever the pathname changes
+  const routeKey = cancelOnRouteChange ? pathname : null;
+  useEffect(() => cancelAll, [routeKey, cancelAll]);
+
+  const run = useCallback(
+    <T>(task: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+      const controller = new AbortController();
+      controllers.add(controller);
+      return task(controller.signal).finally(() => {
+        controllers.delete(controller);
+      });
+    },
+    [controllers]
+  );
+
+  return { run, cancelAll };
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import {
+  authService,
+  getErrorStatus,
+  isCancelledError,
+  resolveTokenExpiry,
+} from "@/services";
+import { authAtom, startImpersonationAtom, stopImpersonationAtom } from "@/store/auth";
+import { DEFAULT_AUTHENTICATED_PATH } from "@/lib/route-access";
+import { useAtomValue, useSetAtom } from "jotai";
+import { useRouter } from "next/navigation";
+import { useCallback, useState } from "react";
+import { useCan } from "./useCan";
+import { useCancellable } from "./useCancellable";
+
+/**
+ * Admin "view as user" mode: switch to another user's session and back
+ */
+export const useImpersonation = () => {
+  const { user, impersonator } = useAtomValue(authAtom);
+  const startImpersonation = useSetAtom(startImpersonationAtom);
+  const stopImpersonation = useSetAtom(stopImpersonationAtom);
+  const router = useRouter();
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { run } = useCancellable();
+
+  // Nested impersonation is not supported
+  const canImpersonate = useCan("user:impersonate") && !impersonator;
+
+  const impersonate = useCallback(
+    async (userId: string): Promise<boolean> => {
+      setIsWorking(true);
+      setError(null);
+
+      try {
+        const response = await run((signal) => authService.startImpersonation(userId, { signal }));
+        const { user: target, token, refreshToken, expiresIn } = response.result.data;
+        startImpersonation({
+          user: target,
+          token,
+          refreshToken: refreshToken ?? null,
+          expiresAt: resolveTokenExpiry(token, expiresIn),
+        });
+        router.push(DEFAULT_AUTHENTICATED_PATH);
+        router.refresh();
+        return true;
+      } catch (err) {
+        if (isCancelledError(err)) {
+          return false;
+        }
+        console.error("[Impersonation] Failed to start:", err);
+        const status = getErrorStatus(err);
+        setError(
+          status === 404
+            ? "No user found with that ID"
+            : status === 403
+              ? "You are not allowed to view the app as this user"
+              : "Could not switch to that user. Please try again."
+        );
+        return false;
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [run, startImpersonation, router]
+  );
+
+  const returnToMyAccount = useCallback(async (): Promise<boolean> => {
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const response = await run((signal) => authService.stopImpersonation({ signal }));
+      if (!stopImpersonation(response.result.data)) {
+        // Signed out locally (admin tokens were missing): don't leave the admin cookie behind
+        await authService.destroySession().catch((destroyError) => {
+          console.error("[Impersonation] Failed to clear the session cookie:", destroyError);
+        });
+      }
+      router.refresh();
+      return true;
+    } catch (err) {
+      if (isCancelledError(err)) {
+        return false;
+      }
+      console.error("[Impersonation] Failed to stop:", err);
+      setError("Could not return to your account. Please try again.");
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  }, [run, stopImpersonation, router]);
+
+  return {
+    isImpersonating: !!impersonator,
+    impersonator,
+    impersonatedUser: impersonator ? user : null,
+    canImpersonate,
+    isWorking,
+    error,
+    impersonate,
+    returnToMyAccount,
+  };
+};
@@ -0,0 +1,218 @@
+"use client";
+
+import type { APIResponse, ListResponse, QueryParams, RequestOptions } from "@/services";
+import { pageSizeAtom } from "@/store/config";
+import { fetchQueryAtom, hashQueryKey, queryCacheAtom } from "@/store/query";
+import { useAtomValue, useSetAtom, useStore } from "jotai";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { UseQueryOptions, useQuery } from "./useQuery";
+
+// Any service method that fetches one page of a list, e.g. `jobService.list`
+export type ListFetcher<T, P extends QueryParams = QueryParams> = (
+  params: P,
+  options?: RequestOptions
+) => Promise<APIResponse<ListResponse<T>>>;
+
+// Everything but the paging params; changing the filters starts again from the first page
+export type ListFilters<P extends QueryParams> = Omit<P, "page" | "limit">;
+
+export interface UseListOptions<P extends QueryParams> extends UseQueryOptions {
+  filters?: ListFilters<P>;
+  // Defaults to the job_board_page_size config value
+  pageSize?: number;
+}
+
+// Pages loaded so far by useInfiniteList, in order
+export interface InfiniteListData<T> {
+  pages: ListResponse<T>[];
+}
+
+export function getTotalPages(list: ListResponse<unknown>): number {
+  return Math.max(1, Math.ceil(list.total / Math.max(1, list.limit)));
+}
+
+function hasMorePages(list: ListResponse<unknown>): boolean {
+  return list.page * list.limit < list.total;
+}
+
+/**
+ * Page-number pagination over any list service method:
+ * `usePaginatedList("jobs", jobService.list, { filters: { location } })`
+ * Visited pages stay in the query cache, and the current page keeps showing while the next loads.
+ */
+export function usePaginatedList<T, P extends QueryParams = QueryParams>(
+  key: string,
+  fetchList: ListFetcher<T, P>,
+  options: UseListOptions<P> = {}
+) {
+  const { filters, pageSize, ...queryOptions } = options;
+  const defaultPageSize = useAtomValue(pageSizeAtom);
+  const limit = pageSize ?? defaultPageSize;
+
+  // The page only applies to the filters it was chosen with; new filters go back to page 1
+  const filtersHash = hashQueryKey([filters ?? {}, limit]);
+  const [pageState, setPageState] = useState({ page: 1, filtersHash });
+  const page = pageState.filtersHash === filtersHash ? pageState.page : 1;
+
+  const params = { ...filters, page, limit } as P;
+  const query = useQuery(
+    [key, params],
+    (signal) => fetchList(params, { signal }).then((response) => response.result.data),
+    queryOptions
+  );
+
+  // Remember the last loaded page to show while another page of the same filters loads
+  const [previous, setPrevious] = useState<{ list: ListResponse<T>; filtersHash: string }>();
+  if (query.data && (query.data !== previous?.list || filtersHash !== previous.filtersHash)) {
+    setPrevious({ list: query.data, filtersHash });
+  }
+
+  // Results for other filters are never shown as a placeholder
+  const placeholder = previous?.filtersHash === filtersHash ? previous.list : undefined;
+  const list = query.data ?? placeholder;
+  const totalPages = list ? getTotalPages(list) : 1;
+
+  const setPage = useCallback(
+    (nextPage: number) => setPageState({ page: Math.max(1, nextPage), filtersHash }),
+    [filtersHash]
+  );
+
+  return {
+    items: list?.data ?? [],
+    total: list?.total ?? 0,
+    page,
+    pageSize: limit,
+    totalPages,
+    hasPreviousPage: page > 1,
+    hasNextPage: page < totalPages,
+    setPage,
+    nextPage: () => setPage(Math.min(page + 1, totalPages)),
+    previousPage: () => setPage(page - 1),
+    isLoading: query.isLoading && !list,
+    isFetching: query.isFetching,
+    // True while an earlier page is shown in place of the requested one
+    isPlaceholderData: !query.data && !!placeholder,
+    error: query.error,
+    refetch: query.refetch,
+  };
+}
+
+/**
+ * Load-more / infinite-scroll over any list service method. Attach `loadMoreRef` to an element
+ * after the last item to load the next page when it scrolls into view, or call `fetchNextPage`.
+ * Loaded pages are cached together and revalidated together.
+ */
+export function useInfiniteList<T, P extends QueryParams = QueryParams>(
+  key: string,
+  fetchList: ListFetcher<T, P>,
+  options: UseListOptions<P> = {}
+) {
+  const { filters, pageSize, ...queryOptions } = options;
+  const { enabled = true, tags } = queryOptions;
+  const defaultPageSize = useAtomValue(pageSizeAtom);
+  const limit = pageSize ?? defaultPageSize;
+
+  // Filters are part of the key, so changing them starts a fresh list
+  const queryKey = [key, { ...filters, limit }, "infinite"];
+  const hash = hashQueryKey(queryKey);
+  const store = useStore();
+  const fetchQuery = useSetAtom(fetchQueryAtom);
+
+  // Callers usually pass inline filters; keep the latest without re-creating callbacks
+  const latestRef = useRef({ fetchList, filters, limit, tags });
+  useEffect(() => {
+    latestRef.current = { fetchList, filters, limit, tags };
+  });
+
+  const fetchPage = useCallback((page: number, signal: AbortSignal) => {
+    const latest = latestRef.current;
+    return latest
+      .fetchList({ ...latest.filters, page, limit: latest.limit } as P, { signal })
+      .then((response) => response.result.data);
+  }, []);
+
+  const getLoadedData = useCallback(
+    () => store.get(queryCacheAtom)[hash]?.data as InfiniteListData<T> | undefined,
+    [store, hash]
+  );
+
+  // Revalidation reloads every page loaded so far
+  const query = useQuery(
+    queryKey,
+    async (signal): Promise<InfiniteListData<T>> => {
+      const pageCount = getLoadedData()?.pages.length || 1;
+      const pages = await Promise.all(
+        Array.from({ length: pageCount }, (_, index) => fetchPage(index + 1, signal))
+      );
+      return { pages };
+    },
+    queryOptions
+  );
+
+  const [isFetchingNextPage, setIsFetchingNextPage] = useState(false);
+
+  const fetchNextPage = useCallback(async (): Promise<void> => {
+    const loaded = getLoadedData();
+    const lastPage = loaded?.pages[loaded.pages.length - 1];
+    if (!loaded || !lastPage || !hasMorePages(lastPage)) {
+      return;
+    }
+
+    setIsFetchingNextPage(true);
+    try {
+      await fetchQuery({
+        hash,
+        fn: (signal) =>
+          fetchPage(loaded.pages.length + 1, signal).then((page) => ({
+            pages: [...loaded.pages, page],
+          })),
+        tags: latestRef.current.tags,
+      });
+    } catch {
+      // Failures are stored on the entry
+    } finally {
+      setIsFetchingNextPage(false);
+    }
+  }, [getLoadedData, fetchPage, fetchQuery, hash]);
+
+  const pages = query.data?.pages;
+  const lastPage = pages?.[pages.length - 1];
+  const hasNextPage = !!lastPage && hasMorePages(lastPage);
+  const items = useMemo(() => pages?.flatMap((page) => page.data) ?? [], [pages]);
+
+  // Load the next page whenever the sentinel element is (or comes) into view
+  const [sentinel, setSentinel] = useState<Element | null>(null);
+  const canLoadMore = enabled && hasNextPage && !query.isFetching;
+
+  useEffect(() => {
+    if (!sentinel || !canLoadMore) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [sentinel, canLoadMore, fetchNextPage]);
+
+  return {
+    items,
+    total: lastPage?.total ?? 0,
+    pageSize: limit,
+    pageCount: pages?.length ?? 0,
+    hasNextPage,
+    fetchNextPage,
+    loadMoreRef: setSentinel,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    isFetchingNextPage,
+    error: query.error,
+    refetch: query.refetch,
+  };
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { ApiError, toApiError } from "@/services";
+import {
+  QueryEntry,
+  QueryKey,
+  cancelQueryAtom,
+  emptyQueryEntry,
+  fetchQueryAtom,
+  hashQueryKey,
+  invalidateQueriesAtom,
+  queryCacheAtom,
+  removeQueryAtom,
+} from "@/store/query";
+import { useAtomValue, useSetAtom, useStore } from "jotai";
+import { selectAtom } from "jotai/utils";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+const DEFAULT_STALE_TIME = 30 * 1000;
+const DEFAULT_CACHE_TIME = 5 * 60 * 1000;
+
+export interface UseQueryOptions {
+  // How long fetched data counts as fresh; stale data is still shown while it revalidates
+  staleTime?: number;
+  // How long an entry nobody uses stays cached before it is evicted
+  cacheTime?: number;
+  // Set to false to hold the query until its inputs are ready
+  enabled?: boolean;
+  // Tags mutations can invalidate, e.g. ["config"]
+  tags?: string[];
+  refetchOnFocus?: boolean;
+  refetchOnReconnect?: boolean;
+}
+
+// Mounted useQuery hooks per key, so unused entries can be evicted after cacheTime
+const subscriberCounts = new Map<string, number>();
+const evictionTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+function isEntryStale(entry: QueryEntry | undefined, staleTime: number): boolean {
+  return (
+    !entry ||
+    entry.isInvalidated ||
+    entry.status === "error" ||
+    entry.updatedAt === null ||
+    Date.now() - entry.updatedAt > staleTime
+  );
+}
+
+/**
+ * Consume any service call through the shared query cache (stale-while-revalidate):
+ * `useQuery(["config"], (signal) => configService.getConfig({ signal }).then((res) => res.result.data))`
+ * The signal aborts once no mounted component uses the key any more.
+ */
+export function useQuery<T>(
+  key: QueryKey,
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: UseQueryOptions = {}
+) {
+  const {
+    staleTime = DEFAULT_STALE_TIME,
+    cacheTime = DEFAULT_CACHE_TIME,
+    enabled = true,
+    tags,
+    refetchOnFocus = true,
+    refetchOnReconnect = true,
+  } = options;
+
+  const hash = hashQueryKey(key);
+  const store = useStore();
+  const fetchQuery = useSetAtom(fetchQueryAtom);
+  const entryAtom = useMemo(
+    () => selectAtom(queryCacheAtom, (cache) => cache[hash] ?? emptyQueryEntry),
+    [hash]
+  );
+  const entry = useAtomValue(entryAtom) as QueryEntry<T>;
+
+  // Callers usually pass inline functions; keep the latest without re-running effects
+  const fnRef = useRef(fn);
+  const tagsRef = useRef(tags);
+  useEffect(() => {
+    fnRef.current = fn;
+    tagsRef.current = tags;
+  });
+
+  const refetch = useCallback(
+    () => fetchQuery({ hash, fn: fnRef.current, tags: tagsRef.current }) as Promise<T>,
+    [hash, fetchQuery]
+  );
+
+  const revalidateIfStale = useCallback(() => {
+    if (isEntryStale(store.get(queryCacheAtom)[hash], staleTime)) {
+      // Failures are stored on the entry
+      refetch().catch(() => undefined);
+    }
+  }, [store, hash, staleTime, refetch]);
+
+  // Fetch when the key is new or stale, and again whenever it is invalidated while mounted
+  useEffect(() => {
+    if (enabled) {
+      revalidateIfStale();
+    }
+  }, [enabled, revalidateIfStale, entry.isInvalidated]);
+
+  // Cancel the fetch when the last subscriber unmounts, and evict the entry once it has been
+  // unused for cacheTime
+  useEffect(() => {
+    subscriberCounts.set(hash, (subscriberCounts.get(hash) ?? 0) + 1);
+    clearTimeout(evictionTimers.get(hash));
+    evictionTimers.delete(hash);
+
+    return () => {
+      const remaining = (subscriberCounts.get(hash) ?? 1) - 1;
+      if (remaining > 0) {
+        subscriberCounts.set(hash, remaining);
+        return;
+      }
+      subscriberCounts.delete(hash);
+      store.set(cancelQueryAtom, hash);
+      evictionTimers.set(
+        hash,
+        setTimeout(() => {
+          evictionTimers.delete(hash);
+          store.set(removeQueryAtom, hash);
+        }, cacheTime)
+      );
+    };
+  }, [hash, cacheTime, store]);
+
+  // Revalidate stale data when the tab regains focus or the connection comes back
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible") {
+        revalidateIfStale();
+      }
+    };
+
+    if (refetchOnFocus) {
+      window.addEventListener("focus", revalidateIfStale);
+      document.addEventListener("visibilitychange", handleVisibility);
+    }
+    if (refetchOnReconnect) {
+      window.addEventListener("online", revalidateIfStale);
+    }
+
+    return () => {
+      window.removeEventListener("focus", revalidateIfStale);
+      document.removeEventListener("visibilitychange", handleVisibility);
+      window.removeEventListener("online", revalidateIfStale);
+    };
+  }, [enabled, refetchOnFocus, refetchOnReconnect, revalidateIfStale]);
+
+  return {
+    data: entry.data,
+    error: entry.error,
+    status: entry.status,
+    isLoading: entry.status === "loading" || (enabled && entry.status === "idle"),
+    isFetching: entry.isFetching,
+    isStale: isEntryStale(entry, staleTime),
+    updatedAt: entry.updatedAt,
+    refetch,
+  };
+}
+
+/**
+ * Wrap a mutating service call; on success the queries tagged with `invalidates` refetch
+ */
+export function useMutation<TArgs extends unknown[], TResult>(
+  fn: (...args: TArgs) => Promise<TResult>,
+  { invalidates }: { invalidates?: string[] } = {}
+) {
+  const invalidateQueries = useSetAtom(invalidateQueriesAtom);
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const fnRef = useRef(fn);
+  const invalidatesRef = useRef(invalidates);
+  useEffect(() => {
+    fnRef.current = fn;
+    invalidatesRef.current = invalidates;
+  });
+
+  const mutate = useCallback(
+    async (...args: TArgs): Promise<TResult> => {
+      setIsPending(true);
+      setError(null);
+
+      try {
+        const result = await fnRef.current(...args);
+        if (invalidatesRef.current?.length) {
+          invalidateQueries({ tags: invalidatesRef.current });
+        }
+        return result;
+      } catch (err) {
+        const apiError = toApiError(err);
+        setError(apiError);
+        throw apiError;
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [invalidateQueries]
+  );
+
+  return { mutate, isPending, error };
+}
+
+/**
+ * Mark cached queries stale by tag or key, e.g. after a change made outside useMutation
+ */
+export function useInvalidateQueries() {
+  return useSetAtom(invalidateQueriesAtom);
+}
@@ -1,8 +1,16 @@
 'use client';
 
+import { useEffect } from 'react';
 import { useAtom, useAtomValue } from 'jotai';
-import { configAtom, updateConfigAtom } from '@/store/config';
+import { Config, configService } from '@/services';
+import {
+  CONFIG_QUERY_KEY,
+  CONFIG_QUERY_TAG,
+  configAtom,
+  updateConfigAtom,
+} from '@/store/config';
 import { authAtom } from '@/store/auth';
+import { useQuery } from './useQuery';
 
 /**
  * Hook to access config data that's been hydrated from SSR
@@ -28,34 +36,45 @@ export function useAuth() {
   return auth;
 }
 
+/**
+ * GET /configs through the query cache. Results are mirrored into configAtom
+ * so `useConfig()` consumers see refreshed data too.
+ */
+export function useConfigQuery() {
+  const [, updateConfig] = useAtom(updateConfigAtom);
+  const query = useQuery<Config>(
+    CONFIG_QUERY_KEY,
+    (signal) => configService.getConfig({ signal }).then((response) => response.result.data),
+    { tags: [CONFIG_QUERY_TAG] }
+  );
+  const { data, isFetching, error } = query;
+
+  useEffect(() => {
+    updateConfig({
+      ...(data ? { config: data } : {}),
+      isLoading: isFetching,
+      error: error ? `Failed to refresh config: ${error.message}` : null,
+    });
+  }, [data, isFetching, error, updateConfig]);
+
+  return query;
+}
+
 /**
  * Hook to refresh data on the client side
  */
 export function useRefreshData() {
-  const [, updateConfig] = useAtom(updateConfigAtom);
-  
+  const { refetch } = useConfigQuery();
+
   const refreshConfig = async () => {
-    updateConfig({ isLoading: true, error: null });
-    
     try {
-      const { configService } = await import('@/services');
-      const response = await configService.getConfig();
-      
-      updateConfig({
-        config: response.result,
-        isLoading: false,
-        error: null,
-      });
+      await refetch();
     } catch (error) {
       console.error('Failed to refresh config:', error);
-      updateConfig({
-        isLoading: false,
-        error: 'Failed to refresh config',
-      });
     }
   };
-  
+
   return {
     refreshConfig,
   };
-}
\ No newline at end of file
+}
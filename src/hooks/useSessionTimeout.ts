@@ -0,0 +1,177 @@
+"use client";
+
+import { Config, refreshAccessToken } from "@/services";
+import { authAtom } from "@/store/auth";
+import { useAtomValue } from "jotai";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAuth } from "./useAuth";
+import { useConfig } from "./useSSRData";
+
+const MINUTE = 60 * 1000;
+
+// Defaults used when /configs does not provide the settings
+const DEFAULT_EXPIRY_WARNING_MINUTES = 5;
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 30;
+
+// Shared between tabs so activity in one tab keeps the others signed in
+const LAST_ACTIVITY_KEY = "lastActivityAt";
+const ACTIVITY_WRITE_INTERVAL = 15 * 1000;
+const IDLE_CHECK_INTERVAL = 30 * 1000;
+
+// setTimeout overflows and fires immediately beyond ~24.8 days
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "scroll", "touchstart"] as const;
+
+export interface SessionTimeoutSettings {
+  // How long before token expiry the warning dialog opens
+  expiryWarningMs: number;
+  // Inactivity period after which the user is signed out (0 disables it)
+  idleTimeoutMs: number;
+}
+
+function readMinutes(value: unknown, fallback: number): number {
+  const minutes = typeof value === "string" ? Number(value) : value;
+  return typeof minutes === "number" && Number.isFinite(minutes) && minutes >= 0
+    ? minutes
+    : fallback;
+}
+
+/**
+ * Read the session thresholds from `Config.settings`
+ * (`sessionExpiryWarningMinutes`, `sessionIdleTimeoutMinutes`)
+ */
+export function getSessionTimeoutSettings(config: Config | null): SessionTimeoutSettings {
+  const settings = config?.settings ?? {};
+
+  return {
+    expiryWarningMs:
+      readMinutes(settings.sessionExpiryWarningMinutes, DEFAULT_EXPIRY_WARNING_MINUTES) * MINUTE,
+    idleTimeoutMs:
+      readMinutes(settings.sessionIdleTimeoutMinutes, DEFAULT_IDLE_TIMEOUT_MINUTES) * MINUTE,
+  };
+}
+
+/**
+ * Warns before the access token expires and signs the user out after inactivity
+ */
+export const useSessionTimeout = () => {
+  const { isAuthenticated, expiresAt, refreshToken } = useAtomValue(authAtom);
+  const { config } = useConfig();
+  const { signOut } = useAuth();
+  const { expiryWarningMs, idleTimeoutMs } = getSessionTimeoutSettings(config);
+
+  const [showWarning, setShowWarning] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [isExtending, setIsExtending] = useState(false);
+  const [extendError, setExtendError] = useState<string | null>(null);
+  const lastActivityRef = useRef(0);
+
+  // Open the warning ahead of expiry and sign out once the token actually expires
+  useEffect(() => {
+    setShowWarning(false);
+    setExtendError(null);
+
+    if (!isAuthenticated || !expiresAt) {
+      return;
+    }
+
+    const warnIn = Math.max(0, expiresAt - expiryWarningMs - Date.now());
+    const expireIn = Math.max(0, expiresAt - Date.now());
+
+    if (expireIn > MAX_TIMEOUT) {
+      return;
+    }
+
+    const warningTimer = setTimeout(() => setShowWarning(true), warnIn);
+    const expiryTimer = setTimeout(() => {
+      console.log("[Session Timeout] Token expired without being extended - signing out");
+      setShowWarning(false);
+      signOut();
+    }, expireIn);
+
+    return () => {
+      clearTimeout(warningTimer);
+      clearTimeout(expiryTimer);
+    };
+  }, [isAuthenticated, expiresAt, expiryWarningMs, signOut]);
+
+  // Countdown shown in the warning dialog
+  useEffect(() => {
+    if (!showWarning || !expiresAt) {
+      return;
+    }
+
+    const tick = () => setSecondsLeft(Math.max(0, Math.round((expiresAt - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [showWarning, expiresAt]);
+
+  // Track activity and sign out after the configured idle period
+  useEffect(() => {
+    if (!isAuthenticated || idleTimeoutMs <= 0) {
+      return;
+    }
+
+    const recordActivity = () => {
+      const now = Date.now();
+      if (now - lastActivityRef.current < ACTIVITY_WRITE_INTERVAL) {
+        return;
+      }
+      lastActivityRef.current = now;
+      localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+    };
+
+    const checkIdle = () => {
+      const sharedActivity = Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0;
+      const lastActivity = Math.max(lastActivityRef.current, sharedActivity);
+      if (Date.now() - lastActivity >= idleTimeoutMs) {
+        console.log("[Session Timeout] Signing out after inactivity");
+        signOut();
+      }
+    };
+
+    // Signing in counts as activity
+    lastActivityRef.current = 0;
+    recordActivity();
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, recordActivity, { passive: true })
+    );
+    const interval = setInterval(checkIdle, IDLE_CHECK_INTERVAL);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, recordActivity));
+      clearInterval(interval);
+    };
+  }, [isAuthenticated, idleTimeoutMs, signOut]);
+
+  // Rotate the token pair; the new expiry reschedules the timers above
+  const staySignedIn = useCallback(async (): Promise<boolean> => {
+    setIsExtending(true);
+    setExtendError(null);
+
+    try {
+      await refreshAccessToken();
+      setShowWarning(false);
+      return true;
+    } catch (error) {
+      console.error("[Session Timeout] Failed to extend session:", error);
+      setExtendError("We could not extend your session. Please sign in again.");
+      return false;
+    } finally {
+      setIsExtending(false);
+    }
+  }, []);
+
+  return {
+    showWarning,
+    secondsLeft,
+    canExtend: !!refreshToken,
+    isExtending,
+    extendError,
+    staySignedIn,
+    signOut,
+  };
+};
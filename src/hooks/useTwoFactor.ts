@@ -0,0 +1,171 @@
+"use client";
+
+import { authService, isCancelledError, toApiError, type MfaEnrollment } from "@/services";
+import { authAtom, updateAuthAtom } from "@/store/auth";
+import { useAtomValue, useSetAtom } from "jotai";
+import { useCallback, useState } from "react";
+import { useCancellable } from "./useCancellable";
+
+export type TwoFactorStatus = "idle" | "working" | "error";
+
+interface FailureMessages {
+  // Shown when the API rejects the code itself (400/422)
+  invalidCode?: string;
+  // Shown for anything else the server answered with
+  fallback: string;
+}
+
+// Blame the code only when the API rejected it; say what actually went wrong otherwise
+function describeFailure(error: unknown, { invalidCode, fallback }: FailureMessages): string {
+  const apiError = toApiError(error);
+
+  if (invalidCode && (apiError.status === 400 || apiError.status === 422)) {
+    return invalidCode;
+  }
+  if (apiError.kind === "network" || apiError.kind === "timeout") {
+    return "Could not reach the server. Check your connection and try again.";
+  }
+  if (apiError.status === 423 || apiError.status === 429) {
+    return "Too many attempts. Please wait a few minutes and try again.";
+  }
+  return fallback;
+}
+
+/**
+ * Two-factor (TOTP) enrollment, recovery codes and disabling for the signed-in user
+ */
+export const useTwoFactor = () => {
+  const { user } = useAtomValue(authAtom);
+  const updateAuth = useSetAtom(updateAuthAtom);
+
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  // Shown once after enrolling or regenerating; the API never returns them again
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [status, setStatus] = useState<TwoFactorStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const { run: runCancellable } = useCancellable();
+
+  const setMfaEnabled = useCallback(
+    (mfaEnabled: boolean) => {
+      if (user) {
+        updateAuth({ user: { ...user, mfaEnabled } });
+      }
+    },
+    [user, updateAuth]
+  );
+
+  // Run a 2FA call with shared status and error handling; cancelled calls resolve to null quietly
+  const run = useCallback(
+    async <T>(
+      action: (signal: AbortSignal) => Promise<T>,
+      messages: FailureMessages
+    ): Promise<T | null> => {
+      setStatus("working");
+      setError(null);
+
+      try {
+        const result = await runCancellable(action);
+        setStatus("idle");
+        return result;
+      } catch (err) {
+        if (isCancelledError(err)) {
+          setStatus("idle");
+          return null;
+        }
+        console.error("[Two-Factor]", messages.fallback, err);
+        setStatus("error");
+        setError(describeFailure(err, messages));
+        return null;
+      }
+    },
+    [runCancellable]
+  );
+
+  const startEnrollment = useCallback(async (): Promise<boolean> => {
+    const response = await run(
+      (signal) => authService.startMfaEnrollment({ signal }),
+      { fallback: "We could not start two-factor setup. Please try again." }
+    );
+    setEnrollment(response?.result.data ?? null);
+    return !!response;
+  }, [run]);
+
+  const confirmEnrollment = useCallback(
+    async (code: string): Promise<boolean> => {
+      const response = await run(
+        (signal) => authService.confirmMfaEnrollment(code, { signal }),
+        {
+          invalidCode: "That code is not valid. Check the time on your device and try again.",
+          fallback: "We could not turn on two-factor authentication. Please try again.",
+        }
+      );
+      if (!response) {
+        return false;
+      }
+      setEnrollment(null);
+      setRecoveryCodes(response.result.data.recoveryCodes);
+      setMfaEnabled(true);
+      return true;
+    },
+    [run, setMfaEnabled]
+  );
+
+  const cancelEnrollment = useCallback(() => {
+    setEnrollment(null);
+    setStatus("idle");
+    setError(null);
+  }, []);
+
+  const disable = useCallback(
+    async (code: string): Promise<boolean> => {
+      const response = await run(
+        (signal) => authService.disableMfa(code, { signal }),
+        {
+          invalidCode: "That code is not valid. Two-factor authentication is still on.",
+          fallback: "We could not turn off two-factor authentication. It is still on.",
+        }
+      );
+      if (!response) {
+        return false;
+      }
+      setRecoveryCodes(null);
+      setMfaEnabled(false);
+      return true;
+    },
+    [run, setMfaEnabled]
+  );
+
+  const regenerateRecoveryCodes = useCallback(
+    async (code: string): Promise<boolean> => {
+      const response = await run(
+        (signal) => authService.regenerateRecoveryCodes(code, { signal }),
+        {
+          invalidCode: "That code is not valid. Your existing recovery codes still work.",
+          fallback: "We could not create new recovery codes. Your existing ones still work.",
+        }
+      );
+      if (!response) {
+        return false;
+      }
+      setRecoveryCodes(response.result.data.recoveryCodes);
+      return true;
+    },
+    [run]
+  );
+
+  const dismissRecoveryCodes = useCallback(() => setRecoveryCodes(null), []);
+
+  return {
+    isEnabled: !!user?.mfaEnabled,
+    enrollment,
+    recoveryCodes,
+    isWorking: status === "working",
+    error,
+    startEnrollment,
+    confirmEnrollment,
+    cancelEnrollment,
+    disable,
+    regenerateRecoveryCodes,
+    dismissRecoveryCodes,
+  };
+};
@@ -0,0 +1,77 @@
+"use client";
+
+import {
+  isBlockedByVerification as isActionBlockedByVerification,
+  type Action,
+  type PermissionResource,
+} from "@/lib/permissions";
+import { authService, isCancelledError, type User } from "@/services";
+import { authAtom, updateAuthAtom } from "@/store/auth";
+import { useAtomValue, useSetAtom } from "jotai";
+import { useCallback, useState } from "react";
+import { useCancellable } from "./useCancellable";
+
+export type ResendStatus = "idle" | "sending" | "sent" | "error";
+
+/**
+ * Single source of truth for email verification state.
+ * Components should read `isVerified` / `needsVerification` rather than `user.verified` directly;
+ * whether an action is allowed is decided by the permission rules (useCan / <Can>).
+ */
+export const useVerification = () => {
+  const { user, isAuthenticated } = useAtomValue(authAtom);
+  const updateAuth = useSetAtom(updateAuthAtom);
+  const [resendStatus, setResendStatus] = useState<ResendStatus>("idle");
+  const { run } = useCancellable();
+
+  const isVerified = !!user?.verified;
+  const needsVerification = isAuthenticated && !!user && !isVerified;
+
+  // True when the permission rules refuse the action only because the email is unverified
+  const isBlockedByVerification = useCallback(
+    (action: Action, resource?: PermissionResource): boolean =>
+      isActionBlockedByVerification(user, action, resource),
+    [user]
+  );
+
+  const resendVerification = useCallback(async (): Promise<boolean> => {
+    setResendStatus("sending");
+
+    try {
+      await run((signal) => authService.resendVerification({ signal }));
+      setResendStatus("sent");
+      return true;
+    } catch (error) {
+      if (isCancelledError(error)) {
+        setResendStatus("idle");
+        return false;
+      }
+      console.error("Resend verification error:", error);
+      setResendStatus("error");
+      return false;
+    }
+  }, [run]);
+
+  // Reflect a successful verification in the signed-in user without a reload
+  const markVerified = useCallback(
+    (verifiedUser?: User) => {
+      // Ignore links opened while signed in as someone else
+      if (!user || (verifiedUser && verifiedUser.id !== user.id)) {
+        return;
+      }
+      updateAuth({
+        user: verifiedUser ?? { ...user, verified: true },
+      });
+    },
+    [user, updateAuth]
+  );
+
+  return {
+    isVerified,
+    needsVerification,
+    isBlockedByVerification,
+    resendVerification,
+    resendStatus,
+    markVerified,
+  };
+};
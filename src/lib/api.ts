@@ -1,69 +1,63 @@
-import { Config, configService } from "@/services";
+import { cookies, headers } from "next/headers";
+import { cache } from "react";
+import {
+  Config,
+  createAuthService,
+  createConfigService,
+  createServerApi,
+  getApiBaseUrl,
+  toApiError,
+} from "@/services";
 
 // Server-side API utilities for SSR
-export const API_BASE_URL =
-  process.env.NEXT_PUBLIC_API_URL || "http://localhost:4000";
+
+// STC API client acting as the caller of the current request (session cookie and request id
+// forwarded), created once per request
+export const getServerApi = cache(async () =>
+  createServerApi({ cookies: await cookies(), headers: await headers() })
+);
+
+// The shared service modules bound to this request's client
+export const getServerServices = cache(async () => {
+  const client = await getServerApi();
+  return {
+    authService: createAuthService(client),
+    configService: createConfigService(client),
+  };
+});
 
 export interface ApiResponse<T> {
   result: T;
 }
 
 export async function fetchConfig(): Promise<ApiResponse<Config>> {
-  const fullUrl = `${API_BASE_URL}/configs`;
+  const fullUrl = `${getApiBaseUrl()}/configs`;
 
   console.log(`[Config Service] Attempting to fetch from: ${fullUrl}`);
 
   try {
+    const { configService } = await getServerServices();
     const response = await configService.getConfig();
 
+    // configService validates the payload against its schema before it gets here
     console.log(`[Config Service] Successfully fetched config data:`, response);
 
-    // Ensure the response has the expected structure
-    // if (!response.result.data || typeof response.result.data !== "object") {
-    //   throw new Error("Invalid response format from API");
-    // }
-
-    return { result: response.result };
+    return { result: response.result.data };
   } catch (error) {
     // Only log errors in development to avoid cluttering production builds
     if (process.env.NODE_ENV === "development") {
       console.error("[Config Service] Failed to fetch config:", error);
     }
 
-    let errorMessage = "Unknown error";
-    let statusCode = "Unknown";
+    const apiError = toApiError(error);
+    const statusCode = apiError.status?.toString() ?? "Unknown";
+    const errorMessage = apiError.message;
 
-    if (error && typeof error === "object" && "response" in error) {
-      const axiosError = error as {
-        response?: { status: number; statusText: string; data: unknown };
-        request?: unknown;
-        message?: string;
-      };
-      if (axiosError.response) {
-        statusCode = axiosError.response.status.toString();
-        errorMessage = `HTTP ${axiosError.response.status}: ${axiosError.response.statusText}`;
-        if (process.env.NODE_ENV === "development") {
-          console.error(
-            "[Config Service] Response error:",
-            axiosError.response.data
-          );
-        }
-      } else if (axiosError.request) {
-        errorMessage = "No response received from server - API may be offline";
-        if (process.env.NODE_ENV === "development") {
-          console.error("[Config Service] Request error:", axiosError.request);
-        }
-      } else if (axiosError.message) {
-        errorMessage = axiosError.message;
-        if (process.env.NODE_ENV === "development") {
-          console.error("[Config Service] Setup error:", axiosError.message);
-        }
-      }
-    } else if (error instanceof Error) {
-      errorMessage = error.message;
-      if (process.env.NODE_ENV === "development") {
-        console.error("[Config Service] Generic error:", error);
-      }
+    if (process.env.NODE_ENV === "development") {
+      console.error(
+        `[Config Service] ${apiError.kind} error:`,
+        apiError.data ?? apiError.message
+      );
     }
 
     // Always return a valid response structure with fallback data
@@ -87,6 +81,8 @@ export async function fetchConfig(): Promise<ApiResponse<Config>> {
         settings: {
           itemsPerPage: 10,
           maxFileSize: "5MB",
+          sessionExpiryWarningMinutes: 5,
+          sessionIdleTimeoutMinutes: 30,
         },
       },
     };
@@ -0,0 +1,121 @@
+import { INVALID_RESPONSE_CODE, toApiError } from "@/services";
+import type { AuthError, AuthErrorCode } from "@/store/auth";
+
+const defaultMessages: Record<AuthErrorCode, string> = {
+  invalid_credentials: "Incorrect email or password",
+  unverified_account: "Please verify your email address before signing in",
+  account_locked: "Your account is temporarily locked after too many failed attempts",
+  rate_limited: "Too many sign-in attempts",
+  invalid_mfa_code: "That code is not valid. Check your authenticator app and try again",
+  mfa_expired: "Your sign-in attempt expired. Please sign in again",
+  validation: "Please correct the highlighted fields",
+  network: "Could not reach the server. Check your connection and try again",
+  offline: "You appear to be offline. Reconnect and try again",
+  server: "The server ran into a problem. Please try again shortly",
+  unknown: "Something went wrong",
+};
+
+// Error codes the STC API sends in `result.code`; only these exact codes are trusted
+const serverCodes: Partial<Record<string, AuthErrorCode>> = {
+  invalid_credentials: "invalid_credentials",
+  unverified_account: "unverified_account",
+  account_locked: "account_locked",
+  rate_limited: "rate_limited",
+  invalid_mfa_code: "invalid_mfa_code",
+  mfa_expired: "mfa_expired",
+};
+
+function codeFromResponse(status: number, serverCode?: string): AuthErrorCode {
+  const normalized = serverCode?.toLowerCase();
+  const known = normalized && Object.hasOwn(serverCodes, normalized) && serverCodes[normalized];
+  if (known) {
+    return known;
+  }
+
+  switch (status) {
+    case 400:
+    case 422:
+      return "validation";
+    case 401:
+      return "invalid_credentials";
+    case 423:
+      return "account_locked";
+    case 429:
+      return "rate_limited";
+    default:
+      // Including a 403 without a code: it does not say why, so don't guess
+      return status >= 500 ? "server" : "unknown";
+  }
+}
+
+// resolveCode picks the AuthErrorCode for an HTTP error response
+function toAuthErrorWith(
+  error: unknown,
+  resolveCode: (status: number, serverCode?: string) => AuthErrorCode
+): AuthError {
+  if (typeof navigator !== "undefined" && !navigator.onLine) {
+    return { code: "offline", message: defaultMessages.offline };
+  }
+
+  const apiError = toApiError(error);
+
+  // The server answered with something the app cannot read; nothing the user can fix
+  if (apiError.code === INVALID_RESPONSE_CODE) {
+    return { code: "server", message: defaultMessages.server };
+  }
+
+  switch (apiError.kind) {
+    case "network":
+    case "timeout":
+      // The request went out but nothing came back (timeout, DNS, CORS, server down)
+      return { code: "network", message: defaultMessages.network };
+    case "cancelled":
+      return { code: "unknown", message: apiError.message };
+    case "unknown":
+      return { code: "unknown", message: defaultMessages.unknown };
+    case "http":
+    case "validation": {
+      const code = resolveCode(apiError.status ?? 0, apiError.code);
+
+      return {
+        code,
+        // Prefer our wording for known codes; keep the server's for validation and unknown cases
+        message:
+          (code === "validation" || code === "unknown") && apiError.serverMessage
+            ? apiError.serverMessage
+            : defaultMessages[code],
+        retryAt: code === "rate_limited" || code === "account_locked" ? apiError.retryAt : undefined,
+        fieldErrors: apiError.fieldErrors,
+      };
+    }
+  }
+}
+
+/**
+ * Turn a failed sign-in (or registration) call into a typed AuthError
+ */
+export function toAuthError(error: unknown): AuthError {
+  return toAuthErrorWith(error, codeFromResponse);
+}
+
+/**
+ * The error for a two-factor challenge that ran out before it was answered
+ */
+export function mfaExpiredError(): AuthError {
+  return { code: "mfa_expired", message: defaultMessages.mfa_expired };
+}
+
+/**
+ * Turn a failed two-factor verification into a typed AuthError
+ */
+export function toMfaError(error: unknown): AuthError {
+  return toAuthErrorWith(error, (status, serverCode) => {
+    if (status === 410) {
+      return "mfa_expired";
+    }
+    if (status === 400 || status === 401 || status === 422) {
+      return "invalid_mfa_code";
+    }
+    return codeFromResponse(status, serverCode);
+  });
+}
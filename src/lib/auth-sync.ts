@@ -0,0 +1,92 @@
+import type { User } from "@/services";
+
+// Cross-tab auth synchronization. BroadcastChannel where available, otherwise a
+// localStorage key whose `storage` events reach every other tab of the origin.
+
+export type AuthSyncMessage =
+  | {
+      type: "login";
+      user: User;
+      token: string;
+      refreshToken: string | null;
+      expiresAt: number | null;
+      impersonator?: User | null;
+    }
+  | {
+      type: "refresh";
+      token: string;
+      refreshToken: string | null;
+      expiresAt: number | null;
+    }
+  | { type: "logout" };
+
+const CHANNEL_NAME = "stc-auth";
+const STORAGE_KEY = "stc-auth-sync";
+
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof window === "undefined" || typeof BroadcastChannel === "undefined") {
+    return null;
+  }
+  // One channel per tab: a BroadcastChannel never receives its own messages
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+/**
+ * Tell every other open tab about an auth change made in this one
+ */
+export function broadcastAuthChange(message: AuthSyncMessage): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  const broadcastChannel = getChannel();
+  if (broadcastChannel) {
+    broadcastChannel.postMessage(message);
+    return;
+  }
+
+  try {
+    // The timestamp makes every write a change, so repeated messages still fire
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ message, sentAt: Date.now() }));
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error("[Auth Sync] Failed to broadcast auth change:", error);
+  }
+}
+
+/**
+ * Listen for auth changes made in other tabs
+ */
+export function subscribeToAuthChanges(
+  listener: (message: AuthSyncMessage) => void
+): () => void {
+  if (typeof window === "undefined") {
+    return () => {};
+  }
+
+  const broadcastChannel = getChannel();
+  if (broadcastChannel) {
+    const handleMessage = (event: MessageEvent<AuthSyncMessage>) => listener(event.data);
+    broadcastChannel.addEventListener("message", handleMessage);
+    return () => broadcastChannel.removeEventListener("message", handleMessage);
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY || !event.newValue) {
+      return;
+    }
+    try {
+      const { message } = JSON.parse(event.newValue) as { message: AuthSyncMessage };
+      listener(message);
+    } catch (error) {
+      console.error("[Auth Sync] Ignoring malformed auth change:", error);
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => window.removeEventListener("storage", handleStorage);
+}
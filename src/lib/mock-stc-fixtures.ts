@@ -0,0 +1,146 @@
+import type { BaseEntity, Config, User } from "@/services";
+
+// Seed data for the built-in mock STC API (see src/lib/mock-stc.ts).
+// Every mock account signs in with MOCK_PASSWORD; two-factor accounts accept MOCK_TOTP_CODE.
+
+export const MOCK_PASSWORD = "password123";
+export const MOCK_TOTP_CODE = "123456";
+// Shown by the mock authenticator enrollment; any app will do since the code is fixed
+export const MOCK_TOTP_SECRET = "JBSWY3DPEHPK3PXP";
+
+export interface MockAccount {
+  user: User;
+  password: string;
+  recoveryCodes: string[];
+}
+
+export const mockAccounts: MockAccount[] = [
+  {
+    user: {
+      id: "user-admin",
+      email: "admin@example.com",
+      firstName: "Ada",
+      lastName: "Admin",
+      role: "admin",
+      verified: true,
+    },
+    password: MOCK_PASSWORD,
+    recoveryCodes: [],
+  },
+  {
+    user: {
+      id: "user-tradesman",
+      email: "tradesman@example.com",
+      firstName: "Tom",
+      lastName: "Sparks",
+      role: "tradesman",
+      verified: true,
+      tradesman_id: "tradesman-1",
+    },
+    password: MOCK_PASSWORD,
+    recoveryCodes: [],
+  },
+  {
+    user: {
+      id: "user-company",
+      email: "company@example.com",
+      firstName: "Carla",
+      lastName: "Builder",
+      role: "company",
+      verified: true,
+      company_id: "company-1",
+    },
+    password: MOCK_PASSWORD,
+    recoveryCodes: [],
+  },
+  {
+    user: {
+      id: "user-mfa",
+      email: "mfa@example.com",
+      firstName: "Max",
+      lastName: "Secure",
+      role: "tradesman",
+      verified: true,
+      tradesman_id: "tradesman-2",
+      mfaEnabled: true,
+    },
+    password: MOCK_PASSWORD,
+    recoveryCodes: ["recovery-1111", "recovery-2222", "recovery-3333"],
+  },
+  {
+    user: {
+      id: "user-unverified",
+      email: "unverified@example.com",
+      firstName: "Una",
+      lastName: "Verified",
+      role: "tradesman",
+      verified: false,
+      tradesman_id: "tradesman-3",
+    },
+    password: MOCK_PASSWORD,
+    recoveryCodes: [],
+  },
+];
+
+export const mockConfig: Config = {
+  appName: "Skilled Trades Connect (Mock API)",
+  version: "1.0.0-mock",
+  environment: "mock",
+  apiStatus: "connected",
+  features: {
+    jobBoard: true,
+    userProfiles: true,
+    messaging: true,
+  },
+  settings: {
+    itemsPerPage: 10,
+    maxFileSize: "5MB",
+    sessionExpiryWarningMinutes: 5,
+    sessionIdleTimeoutMinutes: 30,
+  },
+  job_board_page_size: 20,
+};
+
+// One-off tokens as they would arrive by email, mapped to the account they belong to
+export const mockPasswordResetTokens: Record<string, string> = {
+  "valid-reset-token": "tradesman@example.com",
+};
+
+export const mockVerificationTokens: Record<string, string> = {
+  "valid-verification-token": "unverified@example.com",
+};
+
+// Known but expired tokens answer 410, like the real API
+export const mockExpiredTokens = ["expired-reset-token", "expired-verification-token"];
+
+export type MockRecord = BaseEntity & Record<string, unknown>;
+
+// REST collections served with list/get/create/update/patch/delete, matching createEntityService.
+// Add a key here to mock a new resource, e.g. `reviews: []` serves /reviews.
+export const mockCollections: Record<string, MockRecord[]> = {
+  jobs: [
+    {
+      id: "job-1",
+      title: "Site electrician",
+      location: "Manchester",
+      company_id: "company-1",
+      created_at: "2025-01-06T09:00:00.000Z",
+    },
+    {
+      id: "job-2",
+      title: "Kitchen fitter",
+      location: "Leeds",
+      company_id: "company-1",
+      created_at: "2025-01-08T14:30:00.000Z",
+    },
+    {
+      id: "job-3",
+      title: "Roofer",
+      location: "Bristol",
+      company_id: "company-2",
+      created_at: "2025-01-10T08:15:00.000Z",
+    },
+  ],
+  applications: [],
+  messages: [],
+};
@@ -0,0 +1,592 @@
+import type { Config, LoginResponse, User } from "@/services";
+import { base64UrlDecode, base64UrlEncode, randomUrlSafeString } from "./oidc";
+import {
+  MOCK_TOTP_CODE,
+  MOCK_TOTP_SECRET,
+  MockAccount,
+  MockRecord,
+  mockAccounts,
+  mockCollections,
+  mockConfig,
+  mockExpiredTokens,
+  mockPasswordResetTokens,
+  mockVerificationTokens,
+} from "./mock-stc-fixtures";
+
+// In-memory STC API behind /api/mock-stc, enabled with NEXT_PUBLIC_STC_MOCK_API=true outside
+// production (see isMockApiEnabled). State lives in the Next server process and resets on
+// restart. Access tokens are unsigned JWTs (alg "none"), so anyone can forge one.
+
+const ACCESS_TOKEN_LIFETIME = 15 * 60;
+const MFA_CHALLENGE_LIFETIME = 5 * 60;
+
+export interface MockRequest {
+  method: string;
+  // Path below the mock base URL, e.g. ["auth", "sign-in"]
+  path: string[];
+  query: URLSearchParams;
+  body: unknown;
+  // Bearer token from the Authorization header
+  token: string | null;
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+// Latency and failures applied before a request is handled
+export interface MockBehaviour {
+  minLatency: number;
+  maxLatency: number;
+  // Chance (0-1) that a request fails with errorStatus instead of being handled
+  errorRate: number;
+  errorStatus: number;
+  // Status forced for this one request
+  forcedStatus?: number;
+}
+
+// Per-request overrides, e.g. `{ headers: { [MOCK_STATUS_HEADER]: "503" } }` on a stcApi call
+export const MOCK_STATUS_HEADER = "x-mock-status";
+export const MOCK_LATENCY_HEADER = "x-mock-latency";
+
+// Working copies of the fixtures, so changes made through the API last until restart
+const accounts = new Map<string, MockAccount>(
+  mockAccounts.map((account) => [account.user.id, structuredClone(account)])
+);
+let config: Config = structuredClone(mockConfig);
+const collections = new Map<string, MockRecord[]>(
+  Object.entries(mockCollections).map(([name, records]) => [name, structuredClone(records)])
+);
+const resetTokens = new Map(Object.entries(mockPasswordResetTokens));
+const verificationTokens = new Map(Object.entries(mockVerificationTokens));
+// Refresh token -> user id
+const refreshTokens = new Map<string, string>();
+const mfaChallenges = new Map<string, { userId: string; expiresAt: number }>();
+// Users who started two-factor enrollment but have not confirmed a code yet
+const pendingEnrollments = new Set<string>();
+
+function parseNumber(value: string | null | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Read latency and error injection from the environment and the request headers:
+ * STC_MOCK_LATENCY ("300" or "200-800" ms), STC_MOCK_ERROR_RATE (0-1) and
+ * STC_MOCK_ERROR_STATUS (default 503); x-mock-latency and x-mock-status override one request.
+ */
+export function getMockBehaviour(headers: Headers): MockBehaviour {
+  const latency = headers.get(MOCK_LATENCY_HEADER) ?? process.env.STC_MOCK_LATENCY ?? "";
+  const [min, max = min] = latency.split("-");
+  const minLatency = parseNumber(min, 0);
+  const forcedStatus = parseNumber(headers.get(MOCK_STATUS_HEADER), 0);
+
+  return {
+    minLatency,
+    maxLatency: Math.max(minLatency, parseNumber(max, minLatency)),
+    errorRate: parseNumber(process.env.STC_MOCK_ERROR_RATE, 0),
+    errorStatus: parseNumber(process.env.STC_MOCK_ERROR_STATUS, 503),
+    forcedStatus: forcedStatus || undefined,
+  };
+}
+
+function ok<T>(data: T, message?: string): MockResponse {
+  return { status: 200, body: { result: { data, message, success: true } } };
+}
+
+function fail(
+  status: number,
+  code: string,
+  message: string,
+  errors?: Record<string, string[]>
+): MockResponse {
+  return { status, body: { result: { code, message, errors } } };
+}
+
+/**
+ * The error body the real API sends for a failed request
+ */
+export function mockErrorResponse(status: number): MockResponse {
+  return fail(status, "mock_error", `Injected mock error (HTTP ${status})`);
+}
+
+function readBody(request: MockRequest): Record<string, unknown> {
+  const { body } = request;
+  return body && typeof body === "object" && !Array.isArray(body)
+    ? (body as Record<string, unknown>)
+    : {};
+}
+
+// 422 listing the required fields that are missing, or null when all are present
+function requireFields(body: Record<string, unknown>, fields: string[]): MockResponse | null {
+  const missing = fields.filter((field) => typeof body[field] !== "string" || !body[field]);
+  if (missing.length === 0) {
+    return null;
+  }
+  return fail(
+    422,
+    "validation_failed",
+    "Some fields are missing",
+    Object.fromEntries(missing.map((field) => [field, [`${field} is required`]]))
+  );
+}
+
+function findAccountByEmail(email: unknown): MockAccount | undefined {
+  const normalized = String(email).trim().toLowerCase();
+  return [...accounts.values()].find((account) => account.user.email === normalized);
+}
+
+function encodeJson(value: unknown): string {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function issueAccessToken(user: User): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = encodeJson({ alg: "none", typ: "JWT" });
+  const payload = encodeJson({
+    sub: user.id,
+    email: user.email,
+    role: user.role,
+    iat: now,
+    exp: now + ACCESS_TOKEN_LIFETIME,
+  });
+  return `${header}.${payload}.`;
+}
+
+// The account behind a valid, unexpired access token
+function readAccessToken(token: string | null): MockAccount | undefined {
+  try {
+    const payload = JSON.parse(base64UrlDecode(token?.split(".")[1] ?? "")) as {
+      sub?: string;
+      exp?: number;
+    };
+    if (!payload.sub || !payload.exp || payload.exp * 1000 <= Date.now()) {
+      return undefined;
+    }
+    return accounts.get(payload.sub);
+  } catch {
+    return undefined;
+  }
+}
+
+function startSession(account: MockAccount, message?: string): LoginResponse {
+  const refreshToken = randomUrlSafeString();
+  refreshTokens.set(refreshToken, account.user.id);
+  return {
+    user: account.user,
+    token: issueAccessToken(account.user),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_LIFETIME,
+    message,
+  };
+}
+
+function unauthorized(): MockResponse {
+  return fail(401, "unauthorized", "Missing or expired access token");
+}
+
+// Stand-in for the verification email: the link goes to the server log
+function sendVerificationEmail(account: MockAccount) {
+  const token = randomUrlSafeString(16);
+  verificationTokens.set(token, account.user.email);
+  console.log(
+    `[Mock STC API] Verification link for ${account.user.email}: /verify-email?token=${token}`
+  );
+}
+
+function signIn(request: MockRequest): MockResponse {
+  const body = readBody(request);
+  const invalid = requireFields(body, ["email", "password"]);
+  if (invalid) {
+    return invalid;
+  }
+
+  const account = findAccountByEmail(body.email);
+  if (!account || account.password !== body.password) {
+    return fail(401, "invalid_credentials", "Invalid email or password");
+  }
+  if (!account.user.verified) {
+    return fail(403, "unverified_account", "Email address is not verified");
+  }
+  if (account.user.mfaEnabled) {
+    const mfaToken = randomUrlSafeString();
+    mfaChallenges.set(mfaToken, {
+      userId: account.user.id,
+      expiresAt: Date.now() + MFA_CHALLENGE_LIFETIME * 1000,
+    });
+    return ok({ mfaRequired: true, mfaToken, expiresIn: MFA_CHALLENGE_LIFETIME });
+  }
+  return ok(startSession(account));
+}
+
+function verifyMfa(request: MockRequest): MockResponse {
+  const body = readBody(request);
+  const challenge = mfaChallenges.get(String(body.mfaToken));
+  if (!challenge || challenge.expiresAt <= Date.now()) {
+    mfaChallenges.delete(String(body.mfaToken));
+    return fail(410, "mfa_expired", "The sign-in challenge expired");
+  }
+
+  const account = accounts.get(challenge.userId);
+  if (!account) {
+    return fail(410, "mfa_expired", "The sign-in challenge expired");
+  }
+
+  const recoveryIndex = account.recoveryCodes.indexOf(String(body.recoveryCode));
+  if (body.code !== MOCK_TOTP_CODE && recoveryIndex === -1) {
+    return fail(401, "invalid_mfa_code", "Invalid two-factor code");
+  }
+  if (recoveryIndex !== -1) {
+    account.recoveryCodes.splice(recoveryIndex, 1);
+  }
+  mfaChallenges.delete(String(body.mfaToken));
+  return ok(startSession(account));
+}
+
+function signInWithOidc(request: MockRequest): MockResponse {
+  const body = readBody(request);
+  const invalid = requireFields(body, ["issuer", "subject", "email"]);
+  if (invalid) {
+    return invalid;
+  }
+
+  // Link to the account with the same email, or create one on first sign-in
+  let account = findAccountByEmail(body.email);
+  if (!account) {
+    const id = `user-${randomUrlSafeString(8)}`;
+    account = {
+      user: {
+        id,
+        email: String(body.email).toLowerCase(),
+        firstName: typeof body.firstName === "string" ? body.firstName : undefined,
+        lastName: typeof body.lastName === "string" ? body.lastName : undefined,
+        role: "tradesman",
+        verified: body.emailVerified === true,
+        tradesman_id: `tradesman-${id}`,
+      },
+      password: randomUrlSafeString(),
+      recoveryCodes: [],
+    };
+    accounts.set(id, account);
+  }
+  return ok(startSession(account));
+}
+
+function signUp(request: MockRequest): MockResponse {
+  const body = readBody(request);
+  const required = ["email", "password", "firstName", "lastName", "accountType"];
+  if (body.accountType === "company") {
+    required.push("companyName");
+  }
+  const invalid = requireFields(body, required);
+  if (invalid) {
+    return invalid;
+  }
+  if (findAccountByEmail(body.email)) {
+    return fail(409, "email_taken", "An account with this email already exists", {
+      email: ["This email is already registered"],
+    });
+  }
+
+  const id = `user-${randomUrlSafeString(8)}`;
+  const isCompany = body.accountType === "company";
+  const account: MockAccount = {
+    user: {
+      id,
+      email: String(body.email).toLowerCase(),
+      firstName: String(body.firstName),
+      lastName: String(body.lastName),
+      role: isCompany ? "company" : "tradesman",
+      verified: false,
+      ...(isCompany ? { company_id: `company-${id}` } : { tradesman_id: `tradesman-${id}` }),
+    },
+    password: String(body.password),
+    recoveryCodes: [],
+  };
+  accounts.set(id, account);
+  sendVerificationEmail(account);
+  return ok(startSession(account, "Account created. Check your email to verify it."));
+}
+
+function refresh(request: MockRequest): MockResponse {
+  const { refreshToken } = readBody(request);
+  const userId = refreshTokens.get(String(refreshToken));
+  const account = userId ? accounts.get(userId) : undefined;
+  refreshTokens.delete(String(refreshToken));
+  if (!account) {
+    return fail(401, "invalid_refresh_token", "Refresh token is invalid or was already used");
+  }
+
+  const session = startSession(account);
+  return ok({
+    token: session.token,
+    refreshToken: session.refreshToken,
+    expiresIn: session.expiresIn,
+  });
+}
+
+function requestPasswordReset(request: MockRequest): MockResponse {
+  const account = findAccountByEmail(readBody(request).email);
+  if (account) {
+    const token = randomUrlSafeString(16);
+    resetTokens.set(token, account.user.email);
+    console.log(
+      `[Mock STC API] Password reset link for ${account.user.email}: /reset-password?token=${token}`
+    );
+  }
+  // Same answer either way, so the endpoint does not reveal which emails have accounts
+  return ok(null, "If the account exists, a reset link is on its way");
+}
+
+// 410 for expired tokens, 404 for unknown ones, null when the token is usable
+function checkEmailToken(tokens: Map<string, string>, token: string): MockResponse | null {
+  if (mockExpiredTokens.includes(token)) {
+    return fail(410, "token_expired", "This link has expired");
+  }
+  if (!tokens.has(token)) {
+    return fail(404, "token_not_found", "This link is not valid");
+  }
+  return null;
+}
+
+function validateResetToken(request: MockRequest): MockResponse {
+  const token = String(readBody(request).token);
+  return checkEmailToken(resetTokens, token) ?? ok({ email: resetTokens.get(token) });
+}
+
+function resetPassword(request: MockRequest): MockResponse {
+  const body = readBody(request);
+  const invalid = requireFields(body, ["token", "password"]);
+  if (invalid) {
+    return invalid;
+  }
+
+  const token = String(body.token);
+  const tokenError = checkEmailToken(resetTokens, token);
+  if (tokenError) {
+    return tokenError;
+  }
+  const account = findAccountByEmail(resetTokens.get(token));
+  if (account) {
+    account.password = String(body.password);
+  }
+  resetTokens.delete(token);
+  return ok(null, "Password updated");
+}
+
+function verifyEmail(request: MockRequest): MockResponse {
+  const token = String(readBody(request).token);
+  const tokenError = checkEmailToken(verificationTokens, token);
+  if (tokenError) {
+    return tokenError;
+  }
+
+  const account = findAccountByEmail(verificationTokens.get(token));
+  verificationTokens.delete(token);
+  if (!account) {
+    return fail(404, "token_not_found", "This link is not valid");
+  }
+  account.user.verified = true;
+  return ok(account.user);
+}
+
+function handleAuth(request: MockRequest, route: string): MockResponse | undefined {
+  switch (route) {
+    case "POST auth/sign-in":
+      return signIn(request);
+    case "POST auth/sign-in/mfa":
+      return verifyMfa(request);
+    case "POST auth/sign-in/oidc":
+      return signInWithOidc(request);
+    case "POST auth/sign-up":
+      return signUp(request);
+    case "POST auth/refresh":
+      return refresh(request);
+    case "POST auth/forgot-password":
+      return requestPasswordReset(request);
+    case "POST auth/reset-password/validate":
+      return validateResetToken(request);
+    case "POST auth/reset-password":
+      return resetPassword(request);
+    case "POST auth/verify-email":
+      return verifyEmail(request);
+  }
+
+  // Everything below acts on behalf of the signed-in user
+  if (!route.startsWith("POST auth/")) {
+    return undefined;
+  }
+  const account = readAccessToken(request.token);
+  if (!account) {
+    return unauthorized();
+  }
+  const { user } = account;
+  const body = readBody(request);
+
+  switch (route) {
+    case "POST auth/decode-jwt":
+      return ok(user);
+    case "POST auth/verify-email/resend":
+      sendVerificationEmail(account);
+      return ok(null, "Verification email sent");
+    case "POST auth/mfa/enroll": {
+      pendingEnrollments.add(user.id);
+      const label = encodeURIComponent(`STC:${user.email}`);
+      return ok({
+        secret: MOCK_TOTP_SECRET,
+        otpauthUrl: `otpauth://totp/${label}?secret=${MOCK_TOTP_SECRET}&issuer=STC`,
+      });
+    }
+    case "POST auth/mfa/enroll/confirm":
+      if (!pendingEnrollments.has(user.id) || body.code !== MOCK_TOTP_CODE) {
+        return fail(400, "invalid_mfa_code", "Invalid two-factor code");
+      }
+      pendingEnrollments.delete(user.id);
+      user.mfaEnabled = true;
+      account.recoveryCodes = Array.from({ length: 8 }, () => randomUrlSafeString(6));
+      return ok({ recoveryCodes: account.recoveryCodes });
+    case "POST auth/mfa/disable":
+      if (body.code !== MOCK_TOTP_CODE) {
+        return fail(400, "invalid_mfa_code", "Invalid two-factor code");
+      }
+      user.mfaEnabled = false;
+      account.recoveryCodes = [];
+      return ok(null, "Two-factor authentication disabled");
+    case "POST auth/mfa/recovery-codes":
+      if (!user.mfaEnabled || body.code !== MOCK_TOTP_CODE) {
+        return fail(400, "invalid_mfa_code", "Invalid two-factor code");
+      }
+      account.recoveryCodes = Array.from({ length: 8 }, () => randomUrlSafeString(6));
+      return ok({ recoveryCodes: account.recoveryCodes });
+    case "POST auth/impersonate": {
+      if (user.role !== "admin") {
+        return fail(403, "forbidden", "Only admins can view the app as another user");
+      }
+      const target = accounts.get(String(body.userId));
+      if (!target) {
+        return fail(404, "user_not_found", "No user with that id");
+      }
+      return ok(startSession(target));
+    }
+    case "POST auth/impersonate/end":
+      return ok(null);
+    default:
+      return undefined;
+  }
+}
+
+function handleConfigs(request: MockRequest): MockResponse | undefined {
+  const [, key] = request.path;
+
+  if (request.method === "GET" && key === undefined) {
+    return ok({ ...config, lastRefresh: new Date().toISOString() });
+  }
+  if (request.method === "GET" && request.path.length === 2) {
+    return Object.hasOwn(config, key) ? ok(config[key]) : fail(404, "not_found", `Unknown config key "${key}"`);
+  }
+  if (request.method === "PUT" && key === undefined) {
+    const account = readAccessToken(request.token);
+    if (!account) {
+      return unauthorized();
+    }
+    if (account.user.role !== "admin") {
+      return fail(403, "forbidden", "Only admins can change the configuration");
+    }
+    config = { ...config, ...readBody(request) };
+    return ok(config);
+  }
+  return undefined;
+}
+
+// list/get/create/update/patch/delete, shaped like the responses createEntityService expects
+function handleCollection(request: MockRequest, records: MockRecord[]): MockResponse | undefined {
+  const [name, id] = request.path;
+  const index = id === undefined ? -1 : records.findIndex((record) => record.id === id);
+  const notFound = () => fail(404, "not_found", `No ${name} record with id "${id}"`);
+
+  if (request.path.length === 1) {
+    if (request.method === "GET") {
+      const page = Math.max(1, parseNumber(request.query.get("page"), 1));
+      const limit = Math.max(1, parseNumber(request.query.get("limit"), 20));
+      // Any other query parameter filters on an exact field match
+      const filters = [...request.query.entries()].filter(
+        ([field]) => !["page", "limit", "sort", "order"].includes(field)
+      );
+      const matching = records.filter((record) =>
+        filters.every(([field, value]) => String(record[field]) === value)
+      );
+      return ok({
+        data: matching.slice((page - 1) * limit, page * limit),
+        total: matching.length,
+        page,
+        limit,
+      });
+    }
+    if (request.method === "POST") {
+      const now = new Date().toISOString();
+      const record: MockRecord = {
+        ...readBody(request),
+        id: `${name}-${randomUrlSafeString(8)}`,
+        created_at: now,
+        updated_at: now,
+      };
+      records.push(record);
+      return ok(record);
+    }
+    return undefined;
+  }
+
+  if (request.path.length !== 2) {
+    return undefined;
+  }
+
+  switch (request.method) {
+    case "GET":
+      return index === -1 ? notFound() : ok(records[index]);
+    case "PUT":
+    case "PATCH": {
+      if (index === -1) {
+        return notFound();
+      }
+      const { id: recordId, created_at } = records[index];
+      const base = request.method === "PATCH" ? records[index] : {};
+      records[index] = {
+        ...base,
+        ...readBody(request),
+        id: recordId,
+        created_at,
+        updated_at: new Date().toISOString(),
+      };
+      return ok(records[index]);
+    }
+    case "DELETE":
+      if (index === -1) {
+        return notFound();
+      }
+      records.splice(index, 1);
+      return ok(null);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Answer one request to the mock STC API
+ */
+export function handleMockRequest(request: MockRequest): MockResponse {
+  const route = `${request.method} ${request.path.join("/")}`;
+  const [resource] = request.path;
+  const records = collections.get(resource);
+  let response: MockResponse | undefined;
+
+  if (resource === "auth") {
+    response = handleAuth(request, route);
+  } else if (resource === "configs") {
+    response = handleConfigs(request);
+  } else if (records) {
+    response = handleCollection(request, records);
+  }
+
+  return response ?? fail(404, "not_found", `The mock STC API has no route for ${route}`);
+}
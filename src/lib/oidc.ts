@@ -0,0 +1,243 @@
+// OpenID Connect authorization-code + PKCE helpers for the sign-in route handlers.
+// Configured through environment variables:
+//   OIDC_ISSUER          issuer URL (discovery lives at {issuer}/.well-known/openid-configuration)
+//   OIDC_CLIENT_ID       client registered with the identity provider
+//   OIDC_CLIENT_SECRET   optional, for confidential clients
+//   OIDC_SCOPE           defaults to "openid email profile"
+//   OIDC_MOCK_IDP=true   serve the built-in mock IdP under /api/mock-idp for local testing
+
+import type { OidcIdentity } from "@/services";
+
+export const OIDC_FLOW_COOKIE_NAME = "stc_oidc_flow";
+export const OIDC_RESULT_COOKIE_NAME = "stc_oidc_result";
+// The result cookie carries the token pair: it only has to survive the redirect to /login/oidc
+export const OIDC_RESULT_MAX_AGE = 30;
+export const OIDC_CALLBACK_PATH = "/api/auth/oidc/callback";
+export const MOCK_IDP_PATH = "/api/mock-idp";
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scope: string;
+}
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+}
+
+// State kept in an httpOnly cookie between the redirect to the IdP and the callback
+export interface OidcFlowState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnTo: string;
+}
+
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+}
+
+export const oidcFlowCookieOptions = {
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/api/auth/oidc",
+  maxAge: 10 * 60,
+};
+
+/**
+ * True when OIDC_MOCK_IDP=true outside production; the mock IdP approves every sign-in,
+ * so a production build never serves or trusts it
+ */
+export function isMockIdpEnabled(): boolean {
+  return process.env.OIDC_MOCK_IDP === "true" && process.env.NODE_ENV !== "production";
+}
+
+/**
+ * Read the OIDC configuration, or null when corporate sign-in is not set up.
+ * With the mock IdP enabled the issuer defaults to it.
+ */
+export function getOidcConfig(origin: string): OidcConfig | null {
+  const useMock = isMockIdpEnabled();
+  const issuer = process.env.OIDC_ISSUER || (useMock ? `${origin}${MOCK_IDP_PATH}` : "");
+  const clientId = process.env.OIDC_CLIENT_ID || (useMock ? "stc-frontend" : "");
+
+  if (!issuer || !clientId) {
+    return null;
+  }
+  // An issuer pointing at the mock by hand is refused just the same
+  if (!useMock && issuer.replace(/\/$/, "").endsWith(MOCK_IDP_PATH)) {
+    console.error("[OIDC] The mock IdP is only available in development");
+    return null;
+  }
+
+  return {
+    issuer: issuer.replace(/\/$/, ""),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    scope: process.env.OIDC_SCOPE || "openid email profile",
+  };
+}
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function base64UrlDecode(value: string): string {
+  return atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+}
+
+/**
+ * Random URL-safe string for state, nonce and the PKCE code verifier
+ */
+export function randomUrlSafeString(byteLength = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * S256 code challenge for a PKCE code verifier
+ */
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+/**
+ * Fetch the provider metadata from the discovery document
+ */
+export async function discoverProvider(config: OidcConfig): Promise<OidcProviderMetadata> {
+  const response = await fetch(`${config.issuer}/.well-known/openid-configuration`, {
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed with HTTP ${response.status}`);
+  }
+
+  return (await response.json()) as OidcProviderMetadata;
+}
+
+/**
+ * Build the authorization request URL for the code + PKCE flow
+ */
+export async function buildAuthorizationUrl(
+  config: OidcConfig,
+  metadata: OidcProviderMetadata,
+  flow: OidcFlowState,
+  redirectUri: string
+): Promise<string> {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", config.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", config.scope);
+  url.searchParams.set("state", flow.state);
+  url.searchParams.set("nonce", flow.nonce);
+  url.searchParams.set("code_challenge", await createCodeChallenge(flow.codeVerifier));
+  url.searchParams.set("code_challenge_method", "S256");
+  return url.toString();
+}
+
+/**
+ * Exchange the authorization code for tokens at the token endpoint
+ */
+export async function exchangeAuthorizationCode(
+  config: OidcConfig,
+  metadata: OidcProviderMetadata,
+  code: string,
+  codeVerifier: string,
+  redirectUri: string
+): Promise<{ id_token: string; access_token?: string }> {
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri,
+    client_id: config.clientId,
+    code_verifier: codeVerifier,
+  });
+  if (config.clientSecret) {
+    body.set("client_secret", config.clientSecret);
+  }
+
+  const response = await fetch(metadata.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body,
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    throw new Error(`OIDC token exchange failed with HTTP ${response.status}`);
+  }
+
+  return (await response.json()) as { id_token: string; access_token?: string };
+}
+
+/**
+ * Decode and check the ID token claims.
+ * The token comes straight from the token endpoint over TLS, so per OIDC Core 3.1.3.7
+ * the signature check is optional; issuer, audience, expiry and nonce are still enforced.
+ */
+export function validateIdToken(
+  idToken: string,
+  config: OidcConfig,
+  metadata: OidcProviderMetadata,
+  nonce: string
+): OidcClaims {
+  const [, payload] = idToken.split(".");
+  if (!payload) {
+    throw new Error("Malformed ID token");
+  }
+
+  const claims = JSON.parse(base64UrlDecode(payload)) as OidcClaims;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== metadata.issuer) {
+    throw new Error("ID token issuer mismatch");
+  }
+  if (!audiences.includes(config.clientId)) {
+    throw new Error("ID token audience mismatch");
+  }
+  if (claims.exp * 1000 < Date.now()) {
+    throw new Error("ID token expired");
+  }
+  if (claims.nonce !== nonce) {
+    throw new Error("ID token nonce mismatch");
+  }
+
+  return claims;
+}
+
+/**
+ * Map the IdP claims onto the identity the STC API uses to find or create the User
+ */
+export function toOidcIdentity(claims: OidcClaims, idToken: string): OidcIdentity {
+  const [firstName, ...rest] = (claims.name ?? "").split(" ");
+
+  return {
+    issuer: claims.iss,
+    subject: claims.sub,
+    email: claims.email,
+    emailVerified: claims.email_verified,
+    firstName: claims.given_name ?? (firstName || undefined),
+    lastName: claims.family_name ?? (rest.join(" ") || undefined),
+    idToken,
+  };
+}
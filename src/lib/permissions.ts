@@ -0,0 +1,111 @@
+import type { User } from "@/services";
+
+// Central permission definitions shared by client hooks, server components and route handlers.
+// Keep this module free of React and server-only imports.
+
+export type Role = "admin" | "company" | "tradesman";
+
+export type Action =
+  | "job:create"
+  | "job:update"
+  | "job:delete"
+  | "job:apply"
+  | "message:send"
+  | "application:review"
+  | "company:update"
+  | "tradesman:update"
+  | "config:update"
+  | "user:impersonate";
+
+// Ownership fields of the record an action targets
+export interface PermissionResource {
+  company_id?: string;
+  tradesman_id?: string;
+}
+
+type PermissionRule = boolean | ((user: User, resource?: PermissionResource) => boolean);
+
+const ownsCompanyResource = (user: User, resource?: PermissionResource) =>
+  !!user.company_id && resource?.company_id === user.company_id;
+
+const ownsTradesmanResource = (user: User, resource?: PermissionResource) =>
+  !!user.tradesman_id && resource?.tradesman_id === user.tradesman_id;
+
+// Actions × roles. Admins are allowed everything and are not listed.
+// A function rule is an ownership check; without a resource it asks "can do this to their own records".
+const permissions: Record<Action, Partial<Record<Role, PermissionRule>>> = {
+  "job:create": { company: true },
+  "job:update": { company: (user, resource) => !resource || ownsCompanyResource(user, resource) },
+  "job:delete": { company: (user, resource) => !resource || ownsCompanyResource(user, resource) },
+  "job:apply": { tradesman: true },
+  "message:send": { company: true, tradesman: true },
+  "application:review": {
+    company: (user, resource) => !resource || ownsCompanyResource(user, resource),
+  },
+  "company:update": {
+    company: (user, resource) => !resource || ownsCompanyResource(user, resource),
+  },
+  "tradesman:update": {
+    tradesman: (user, resource) => !resource || ownsTradesmanResource(user, resource),
+  },
+  "config:update": {},
+  "user:impersonate": {},
+};
+
+// Actions that also need a verified email address, whatever the role
+const verifiedOnlyActions = new Set<Action>(["job:create", "job:apply", "message:send"]);
+
+/**
+ * True when the action is held back only until the account's email address is verified
+ */
+export function requiresVerification(action: Action): boolean {
+  return verifiedOnlyActions.has(action);
+}
+
+/**
+ * True when can() refuses the action only because the email address is unverified,
+ * e.g. to show "verify your email to post jobs" instead of hiding the button
+ */
+export function isBlockedByVerification(
+  user: User | null | undefined,
+  action: Action,
+  resource?: PermissionResource
+): boolean {
+  return (
+    !!user &&
+    !user.verified &&
+    requiresVerification(action) &&
+    can({ ...user, verified: true }, action, resource)
+  );
+}
+
+/**
+ * Check whether a user may perform an action, optionally on a specific resource
+ */
+export function can(
+  user: User | null | undefined,
+  action: Action,
+  resource?: PermissionResource
+): boolean {
+  if (!user) {
+    return false;
+  }
+
+  if (requiresVerification(action) && !user.verified) {
+    return false;
+  }
+
+  if (user.role === "admin") {
+    return true;
+  }
+
+  // Own properties only, so a role like "toString" cannot pick up an Object.prototype member
+  const rules = permissions[action];
+  const rule =
+    user.role && Object.hasOwn(rules, user.role) ? rules[user.role as Role] : undefined;
+
+  if (typeof rule === "function") {
+    return rule(user, resource);
+  }
+  return rule === true;
+}
@@ -0,0 +1,139 @@
+import type { User } from "@/services";
+import { can, isBlockedByVerification, type Action } from "./permissions";
+
+// Declarative route access table shared by middleware and the client-side RouteGuard.
+// Keep this module free of server-only or browser-only imports.
+
+export interface RouteAccessRule {
+  // Path the rule applies to; matches the path itself and everything below it
+  path: string;
+  access: "public" | "authenticated";
+  // Roles allowed on the route (any authenticated role when omitted)
+  roles?: string[];
+  // Require a verified email address
+  requiresVerified?: boolean;
+  // Permission needed to open the route, checked with can() like the buttons that link to it
+  action?: Action;
+}
+
+export type RouteAccessDecision =
+  | { allowed: true; rule: RouteAccessRule }
+  | {
+      allowed: false;
+      rule: RouteAccessRule;
+      reason: "unauthenticated" | "forbidden" | "unverified";
+    };
+
+export const LOGIN_PATH = "/login";
+// Where users land after signing in when there is no valid returnTo
+export const DEFAULT_AUTHENTICATED_PATH = "/config";
+export const FORBIDDEN_PATH = "/forbidden";
+
+export const routeAccessRules: RouteAccessRule[] = [
+  { path: "/", access: "public" },
+  { path: LOGIN_PATH, access: "public" },
+  { path: "/register", access: "public" },
+  { path: "/forgot-password", access: "public" },
+  { path: "/reset-password", access: "public" },
+  { path: "/verify-email", access: "public" },
+  { path: FORBIDDEN_PATH, access: "public" },
+  { path: "/instructions", access: "public" },
+  { path: "/simple", access: "public" },
+  { path: "/ssr-demo", access: "public" },
+  { path: "/test", access: "public" },
+  { path: "/config", access: "authenticated" },
+  { path: "/account", access: "authenticated" },
+  { path: "/jobs", access: "authenticated" },
+  { path: "/jobs/new", access: "authenticated", action: "job:create" },
+  { path: "/state-demo", access: "authenticated" },
+  { path: "/services-demo", access: "authenticated", roles: ["admin"] },
+];
+
+// Routes not listed above require a signed-in user
+const defaultRule: RouteAccessRule = { path: "*", access: "authenticated" };
+
+function matchesPath(pathname: string, rulePath: string): boolean {
+  if (rulePath === "/") {
+    return pathname === "/";
+  }
+  return pathname === rulePath || pathname.startsWith(`${rulePath}/`);
+}
+
+/**
+ * Find the most specific rule for a path
+ */
+export function findRouteAccessRule(pathname: string): RouteAccessRule {
+  const matches = routeAccessRules
+    .filter((rule) => matchesPath(pathname, rule.path))
+    .sort((a, b) => b.path.length - a.path.length);
+
+  return matches[0] ?? defaultRule;
+}
+
+/**
+ * Decide whether a user (or anonymous visitor) may open a path
+ */
+export function evaluateRouteAccess(
+  pathname: string,
+  user: User | null
+): RouteAccessDecision {
+  const rule = findRouteAccessRule(pathname);
+
+  if (rule.access === "public") {
+    return { allowed: true, rule };
+  }
+
+  if (!user) {
+    return { allowed: false, rule, reason: "unauthenticated" };
+  }
+
+  if (rule.roles && (!user.role || !rule.roles.includes(user.role))) {
+    return { allowed: false, rule, reason: "forbidden" };
+  }
+
+  if (rule.requiresVerified && !user.verified) {
+    return { allowed: false, rule, reason: "unverified" };
+  }
+
+  if (rule.action && !can(user, rule.action)) {
+    const reason = isBlockedByVerification(user, rule.action) ? "unverified" : "forbidden";
+    return { allowed: false, rule, reason };
+  }
+
+  return { allowed: true, rule };
+}
+
+/**
+ * Build the login URL that brings the user back to where they were headed
+ */
+export function buildLoginRedirect(pathname: string, search = ""): string {
+  const returnTo = encodeURIComponent(`${pathname}${search}`);
+  return `${LOGIN_PATH}?returnTo=${returnTo}`;
+}
+
+/**
+ * Validate a returnTo value, allowing only same-origin paths.
+ * Anything else (absolute URLs, protocol-relative URLs, the login page itself) falls back.
+ */
+export function sanitizeReturnTo(
+  returnTo: string | null | undefined,
+  fallback: string = DEFAULT_AUTHENTICATED_PATH
+): string {
+  // Must be a path; "//host" and "/\\host" are protocol-relative URLs in browsers
+  if (!returnTo || !returnTo.startsWith("/") || /^\/[\/\\]/.test(returnTo)) {
+    return fallback;
+  }
+
+  try {
+    const base = "http://same-origin.invalid";
+    const url = new URL(returnTo, base);
+
+    if (url.origin !== base || matchesPath(url.pathname, LOGIN_PATH)) {
+      return fallback;
+    }
+
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return fallback;
+  }
+}
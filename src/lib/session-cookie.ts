@@ -0,0 +1,18 @@
+// Session cookie settings, kept free of server-only imports so middleware can use them
+export const SESSION_COOKIE_NAME = "stc_session";
+
+// One week; the client rewrites the cookie whenever it rotates the access token
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 7;
+
+// Holds the admin's own access token while they view the app as another user
+export const IMPERSONATOR_COOKIE_NAME = "stc_impersonator";
+// The admin's user id, so server-side calls can send X-Impersonated-By without decoding a token
+export const IMPERSONATOR_ID_COOKIE_NAME = "stc_impersonator_id";
+
+export const sessionCookieOptions = {
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge: SESSION_MAX_AGE,
+};
@@ -0,0 +1,166 @@
+import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
+import { cache } from "react";
+import {
+  decodeTokenExpiry,
+  toApiError,
+  type APIResponse,
+  type LoginResponse,
+  type User,
+} from "@/services";
+import { AuthState, initialAuthState } from "@/store/auth";
+import { getServerServices } from "./api";
+import { can, type Action, type PermissionResource } from "./permissions";
+import {
+  IMPERSONATOR_COOKIE_NAME,
+  SESSION_COOKIE_NAME,
+  sessionCookieOptions,
+} from "./session-cookie";
+
+// Server-side session utilities backed by an httpOnly cookie
+export {
+  IMPERSONATOR_COOKIE_NAME,
+  IMPERSONATOR_ID_COOKIE_NAME,
+  SESSION_COOKIE_NAME,
+  SESSION_MAX_AGE,
+  sessionCookieOptions,
+} from "./session-cookie";
+
+/**
+ * Read the session token from the incoming request cookies
+ */
+export async function getSessionToken(): Promise<string | null> {
+  const cookieStore = await cookies();
+  return cookieStore.get(SESSION_COOKIE_NAME)?.value ?? null;
+}
+
+// Resolve the signed-in user once per request, shared by the layout and any
+// server component that needs to know who is calling
+export const getSessionUser = cache(async (): Promise<User | null> => {
+  const token = await getSessionToken();
+
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const { authService } = await getServerServices();
+    const response = await authService.decodeJWT(token);
+    return response.result.data ?? null;
+  } catch (error) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("[Session] Failed to resolve session user:", error);
+    }
+    return null;
+  }
+});
+
+// The admin behind the current session while they view the app as another user
+export const getSessionImpersonator = cache(async (): Promise<User | null> => {
+  const cookieStore = await cookies();
+  const adminToken = cookieStore.get(IMPERSONATOR_COOKIE_NAME)?.value;
+
+  if (!adminToken) {
+    return null;
+  }
+
+  try {
+    const { authService } = await getServerServices();
+    const response = await authService.decodeJWT(adminToken);
+    return response.result.data ?? null;
+  } catch (error) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("[Session] Failed to resolve impersonator:", error);
+    }
+    return null;
+  }
+});
+
+/**
+ * Check a permission for the caller of the current request (server components and route handlers)
+ */
+export async function sessionCan(
+  action: Action,
+  resource?: PermissionResource
+): Promise<boolean> {
+  return can(await getSessionUser(), action, resource);
+}
+
+/**
+ * Build the auth state used to hydrate authAtom on the client.
+ * The token itself stays in the httpOnly cookie and is never serialized.
+ */
+export async function getInitialAuthState(): Promise<AuthState> {
+  const user = await getSessionUser();
+  const token = await getSessionToken();
+
+  if (!user || !token) {
+    return initialAuthState;
+  }
+
+  return {
+    user,
+    token: null,
+    // The refresh token only lives client-side
+    refreshToken: null,
+    expiresAt: decodeTokenExpiry(token),
+    impersonator: await getSessionImpersonator(),
+    isAuthenticated: true,
+    isLoading: false,
+    error: null,
+  };
+}
+
+/**
+ * Route handler response that passes the sign-in payload through and sets the session cookie
+ */
+export function createSessionResponse(body: APIResponse<LoginResponse>): NextResponse {
+  const response = NextResponse.json(body);
+  response.cookies.set(SESSION_COOKIE_NAME, body.result.data.token, sessionCookieOptions);
+  return response;
+}
+
+/**
+ * Refuse a state-changing request sent from another site (CSRF). Browsers send Origin with
+ * POST/PUT/DELETE; without it, Sec-Fetch-Site must not say cross-site. Returns the 403 response
+ * to send, or null when the request may go ahead.
+ */
+export function rejectCrossSiteRequest(request: NextRequest): NextResponse | null {
+  const origin = request.headers.get("origin");
+  const fetchSite = request.headers.get("sec-fetch-site");
+  const sameOrigin = origin
+    ? origin === request.nextUrl.origin
+    : !fetchSite || fetchSite === "same-origin" || fetchSite === "none";
+
+  if (sameOrigin) {
+    return null;
+  }
+  return NextResponse.json(
+    { result: { data: null, message: "Cross-site request refused", success: false } },
+    { status: 403 }
+  );
+}
+
+/**
+ * Forward the upstream status and body of a failed STC API call so the client can report it
+ */
+export function upstreamErrorResponse(error: unknown, context: string): NextResponse {
+  const apiError = toApiError(error);
+
+  if (apiError.status) {
+    // Retry-After drives the client's lockout countdown
+    const retryAfter = apiError.retryAt
+      ? String(Math.max(0, Math.ceil((apiError.retryAt - Date.now()) / 1000)))
+      : undefined;
+    return NextResponse.json(apiError.data ?? null, {
+      status: apiError.status,
+      headers: retryAfter ? { "Retry-After": retryAfter } : undefined,
+    });
+  }
+
+  console.error(`[${context}] Request to STC API failed (${apiError.kind}):`, apiError.message);
+  return NextResponse.json(
+    { result: { data: null, message: "Authentication service unavailable", success: false } },
+    { status: 502 }
+  );
+}
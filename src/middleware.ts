@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { APIResponse, User } from "@/services";
+import {
+  FORBIDDEN_PATH,
+  buildLoginRedirect,
+  evaluateRouteAccess,
+  findRouteAccessRule,
+} from "@/lib/route-access";
+import { SESSION_COOKIE_NAME } from "@/lib/session-cookie";
+import { getApiBaseUrl } from "@/services/utils/url";
+
+// Outcome of the session lookup: only an explicit 401/403 means the cookie is no good.
+// Network errors, timeouts, 429 and 5xx leave the session alone.
+type SessionLookup =
+  | { status: "user"; user: User }
+  | { status: "rejected" }
+  | { status: "unavailable" };
+
+/**
+ * Resolve the session user with fetch; axios is not available in the edge runtime
+ */
+async function resolveSessionUser(token: string): Promise<SessionLookup> {
+  try {
+    const response = await fetch(`${getApiBaseUrl()}/auth/decode-jwt`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      return { status: "rejected" };
+    }
+    if (!response.ok) {
+      console.error(`[Middleware] Session lookup failed with HTTP ${response.status}`);
+      return { status: "unavailable" };
+    }
+
+    const body = (await response.json()) as APIResponse<User>;
+    return body.result.data ? { status: "user", user: body.result.data } : { status: "rejected" };
+  } catch (error) {
+    console.error("[Middleware] Failed to resolve session user:", error);
+    return { status: "unavailable" };
+  }
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  // Public routes never need the session lookup
+  if (findRouteAccessRule(pathname).access === "public") {
+    return NextResponse.next();
+  }
+
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const lookup = token ? await resolveSessionUser(token) : null;
+
+  // Can't tell who this is right now: keep the cookie and let the page (and the client's
+  // refresh logic) deal with it rather than signing everyone out on a backend blip
+  if (lookup?.status === "unavailable") {
+    return NextResponse.next();
+  }
+
+  const user = lookup?.status === "user" ? lookup.user : null;
+  const decision = evaluateRouteAccess(pathname, user);
+
+  if (decision.allowed) {
+    return NextResponse.next();
+  }
+
+  if (decision.reason === "unauthenticated") {
+    const response = NextResponse.redirect(
+      new URL(buildLoginRedirect(pathname, search), request.url)
+    );
+    // Drop a cookie the backend explicitly rejected
+    if (lookup?.status === "rejected") {
+      response.cookies.delete(SESSION_COOKIE_NAME);
+    }
+    return response;
+  }
+
+  // Keep the requested URL in the address bar and render the 403 page
+  const forbiddenUrl = new URL(FORBIDDEN_PATH, request.url);
+  forbiddenUrl.searchParams.set("reason", decision.reason);
+  forbiddenUrl.searchParams.set("from", pathname);
+  return NextResponse.rewrite(forbiddenUrl, { status: 403 });
+}
+
+export const config = {
+  // Skip API routes, Next internals and static files
+  matcher: ["/((?!api|_next/static|_next/image|favicon.ico|.*\\.[\\w]+$).*)"],
+};
@@ -1,52 +1,273 @@
-import { APIResponse } from './types/api';
+import type { AxiosInstance } from 'axios';
+import { APIResponse, RequestOptions } from './types/api';
 import stcApi from './instances/stc';
+import defaultAxios from './instances/axios';
+import { createAuthApi } from './generated/auth';
+import { loginResponseSchema, signInResponseSchema, userSchema } from './generated/schemas';
+import type {
+  AuthCredentials,
+  LoginResponse,
+  MfaChallenge,
+  MfaEnrollment,
+  MfaVerification,
+  OidcIdentity,
+  PasswordResetData,
+  RecoveryCodes,
+  RefreshResponse,
+  RegistrationData,
+  SignInResponse,
+  User,
+} from './generated/types';
+import { clearStoredTokens } from './utils/tokens';
+import { schema } from './utils/schema';
 
-// Auth-specific types
-export interface AuthCredentials {
-  email: string;
-  password: string;
-}
+// Auth types are generated from openapi/stc-api.json
+export type {
+  AuthCredentials,
+  AccountType,
+  TradesmanRegistration,
+  CompanyRegistration,
+  RegistrationData,
+  User,
+  LoginResponse,
+  MfaChallenge,
+  SignInResponse,
+  MfaVerification,
+  MfaEnrollment,
+  RecoveryCodes,
+  RefreshResponse,
+  OidcIdentity,
+  PasswordResetData,
+} from './generated/types';
 
-export interface User {
-  id: string;
-  email: string;
-  firstName?: string;
-  lastName?: string;
-  role?: string;
-  verified?: boolean;
-  company_id?: string;
-  tradesman_id?: string;
+export function isMfaChallenge(response: SignInResponse): response is MfaChallenge {
+  return 'mfaRequired' in response && response.mfaRequired === true;
 }
 
-export interface LoginResponse {
-  user: User;
-  token: string;
-  message?: string;
+/**
+ * Auth calls through the given client: stcApi in the browser, createServerApi() on the server.
+ * The session-route methods always go through the same-origin Next route handlers.
+ */
+export function createAuthService(client: AxiosInstance = stcApi) {
+  const authApi = createAuthApi(client);
+
+  return {
+    /**
+     * Sign in user with email and password.
+     * Accounts with two-factor authentication get an MfaChallenge instead of a session.
+     */
+    login(credentials: AuthCredentials, options?: RequestOptions): Promise<APIResponse<SignInResponse>> {
+      return authApi.signIn(credentials, options);
+    },
+
+    /**
+     * Issue a session for another user on behalf of an admin ("view as user").
+     * Pass the admin token explicitly when calling from the server.
+     */
+    impersonate(userId: string, token?: string, options?: RequestOptions): Promise<APIResponse<LoginResponse>> {
+      const headers = token ? { Authorization: `Bearer ${token}` } : undefined;
+      return client
+        .post('/auth/impersonate', { userId }, { ...options, headers, schema: loginResponseSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Tell the API an impersonation session is over, for its audit trail
+     */
+    endImpersonation(token?: string, options?: RequestOptions): Promise<APIResponse<null>> {
+      const headers = token ? { Authorization: `Bearer ${token}` } : undefined;
+      return client
+        .post('/auth/impersonate/end', undefined, { ...options, headers })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Complete a two-factor sign-in with a TOTP or recovery code.
+     * Rejects with 401 for a wrong code and 410 when the challenge expired.
+     */
+    verifyMfa(data: MfaVerification, options?: RequestOptions): Promise<APIResponse<LoginResponse>> {
+      return authApi.verifyMfa(data, options);
+    },
+
+    /**
+     * Sign in (or link) the STC user matching an OpenID Connect identity; responds like sign-in
+     */
+    signInWithOidc(identity: OidcIdentity, options?: RequestOptions): Promise<APIResponse<LoginResponse>> {
+      return authApi.signInWithOidc(identity, options);
+    },
+
+    /**
+     * Create a tradesman or company account; responds like sign-in
+     */
+    register(data: RegistrationData, options?: RequestOptions): Promise<APIResponse<LoginResponse>> {
+      return authApi.signUp(data, options);
+    },
+
+    /**
+     * Decode JWT token to get current user.
+     * Pass a token explicitly when calling from the server, where localStorage is unavailable.
+     */
+    decodeJWT(token?: string, options?: RequestOptions): Promise<APIResponse<User>> {
+      const headers = token ? { Authorization: `Bearer ${token}` } : undefined;
+      return client
+        .post('/auth/decode-jwt', undefined, { ...options, headers, schema: userSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Exchange a refresh token for a new access/refresh token pair.
+     * Skips the 401 refresh interceptor so a rejected refresh token cannot loop.
+     */
+    refresh(refreshToken: string, options?: RequestOptions): Promise<APIResponse<RefreshResponse>> {
+      return authApi.refreshToken({ refreshToken }, options);
+    },
+
+    /**
+     * Email a password reset link. The API responds the same whether or not the account exists.
+     */
+    requestPasswordReset(email: string, options?: RequestOptions): Promise<APIResponse<null>> {
+      return authApi.requestPasswordReset({ email }, options);
+    },
+
+    /**
+     * Check a password reset token before asking for a new password.
+     * Rejects with 410 when the token expired and 400/404 when it is unknown.
+     */
+    validateResetToken(token: string, options?: RequestOptions): Promise<APIResponse<{ email?: string }>> {
+      return authApi.validateResetToken({ token }, options);
+    },
+
+    /**
+     * Set a new password using a reset token
+     */
+    resetPassword(data: PasswordResetData, options?: RequestOptions): Promise<APIResponse<null>> {
+      return authApi.resetPassword(data, options);
+    },
+
+    /**
+     * Confirm an email address with the token from the verification email.
+     * Rejects with 410 when the token expired and 400/404 when it is unknown.
+     */
+    verifyEmail(token: string, options?: RequestOptions): Promise<APIResponse<User>> {
+      return authApi.verifyEmail({ token }, options);
+    },
+
+    /**
+     * Send a fresh verification email to the signed-in user
+     */
+    resendVerification(options?: RequestOptions): Promise<APIResponse<null>> {
+      return authApi.resendVerification(options);
+    },
+
+    /**
+     * Start two-factor enrollment for the signed-in user; returns the secret to scan
+     */
+    startMfaEnrollment(options?: RequestOptions): Promise<APIResponse<MfaEnrollment>> {
+      return authApi.startMfaEnrollment(options);
+    },
+
+    /**
+     * Turn two-factor authentication on by proving the authenticator app works
+     */
+    confirmMfaEnrollment(code: string, options?: RequestOptions): Promise<APIResponse<RecoveryCodes>> {
+      return authApi.confirmMfaEnrollment({ code }, options);
+    },
+
+    /**
+     * Turn two-factor authentication off; requires a current TOTP code
+     */
+    disableMfa(code: string, options?: RequestOptions): Promise<APIResponse<null>> {
+      return authApi.disableMfa({ code }, options);
+    },
+
+    /**
+     * Replace all recovery codes; requires a current TOTP code
+     */
+    regenerateRecoveryCodes(code: string, options?: RequestOptions): Promise<APIResponse<RecoveryCodes>> {
+      return authApi.regenerateRecoveryCodes({ code }, options);
+    },
+
+    /**
+     * Sign in through the Next route handler, which also sets the httpOnly session cookie
+     * (unless the account still has to pass a two-factor challenge)
+     */
+    createSession(credentials: AuthCredentials, options?: RequestOptions): Promise<APIResponse<SignInResponse>> {
+      return defaultAxios
+        .post('/api/auth/session', credentials, { ...options, schema: signInResponseSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Finish a two-factor sign-in through the Next route handler, which sets the session cookie
+     */
+    createMfaSession(data: MfaVerification, options?: RequestOptions): Promise<APIResponse<LoginResponse>> {
+      return defaultAxios
+        .post('/api/auth/session/mfa', data, { ...options, schema: loginResponseSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Register through the Next route handler, which signs the new user in with a session cookie
+     */
+    createAccount(data: RegistrationData, options?: RequestOptions): Promise<APIResponse<LoginResponse>> {
+      return defaultAxios
+        .post('/api/auth/register', data, { ...options, schema: loginResponseSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Collect the sign-in result left by the OIDC callback route (can only be read once)
+     */
+    completeOidcSession(options?: RequestOptions): Promise<APIResponse<LoginResponse>> {
+      return defaultAxios
+        .get('/api/auth/oidc/session', { ...options, schema: loginResponseSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Start viewing the app as another user through the Next route handler,
+     * which keeps the admin session cookie aside
+     */
+    startImpersonation(userId: string, options?: RequestOptions): Promise<APIResponse<LoginResponse>> {
+      return defaultAxios
+        .post('/api/auth/impersonation', { userId }, { ...options, schema: loginResponseSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Put the admin session cookie back; responds with the admin user
+     */
+    stopImpersonation(options?: RequestOptions): Promise<APIResponse<User | null>> {
+      return defaultAxios
+        .delete('/api/auth/impersonation', { ...options, schema: schema.nullable(userSchema) })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Replace the token held in the httpOnly session cookie after a refresh
+     */
+    updateSession(token: string, options?: RequestOptions): Promise<void> {
+      return defaultAxios.put('/api/auth/session', { token }, options).then(() => undefined);
+    },
+
+    /**
+     * Clear the httpOnly session cookie
+     */
+    destroySession(options?: RequestOptions): Promise<void> {
+      return defaultAxios.delete('/api/auth/session', options).then(() => undefined);
+    },
+
+    /**
+     * Sign out user (client-side token cleanup)
+     */
+    signOut(): void {
+      clearStoredTokens();
+    },
+  };
 }
 
-const authService = {
-  /**
-   * Sign in user with email and password
-   */
-  login(credentials: AuthCredentials): Promise<APIResponse<LoginResponse>> {
-    return stcApi.post('/auth/sign-in', credentials).then((res) => res.data);
-  },
-
-  /**
-   * Decode JWT token to get current user
-   */
-  decodeJWT(): Promise<APIResponse<User>> {
-    return stcApi.post('/auth/decode-jwt').then((res) => res.data);
-  },
-
-  /**
-   * Sign out user (client-side token cleanup)
-   */
-  signOut(): void {
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('token');
-    }
-  },
-};
+export type AuthService = ReturnType<typeof createAuthService>;
+
+const authService = createAuthService();
 
 export default authService;
\ No newline at end of file
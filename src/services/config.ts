@@ -1,27 +1,9 @@
-import { APIResponse, Config } from './types/api';
-import stcApi from './instances/stc';
+import { createConfigApi } from './generated/config';
 
-const configService = {
-  /**
-   * Get application configuration
-   */
-  getConfig(): Promise<APIResponse<Config>> {
-    return stcApi.get('/configs').then((res) => res.data);
-  },
+// The config endpoints are generated from openapi/stc-api.json; this module keeps the
+// service name the rest of the app imports
+export const createConfigService = createConfigApi;
 
-  /**
-   * Update application configuration (admin only)
-   */
-  updateConfig(config: Partial<Config>): Promise<APIResponse<Config>> {
-    return stcApi.put('/configs', config).then((res) => res.data);
-  },
+const configService = createConfigService();
 
-  /**
-   * Get specific config value by key
-   */
-  getConfigValue(key: string): Promise<APIResponse<unknown>> {
-    return stcApi.get(`/configs/${key}`).then((res) => res.data);
-  },
-};
-
-export default configService;
\ No newline at end of file
+export default configService;
@@ -0,0 +1,97 @@
+import type { AxiosInstance } from 'axios';
+import { APIResponse, BaseEntity, ListResponse, QueryParams, RequestOptions } from './types/api';
+import stcApi from './instances/stc';
+import { buildApiUrl } from './utils/url';
+import { Schema, schema } from './utils/schema';
+
+// Fields the client sends when creating or replacing an entity; the API owns id and timestamps
+export type EntityInput<T extends BaseEntity> = Omit<T, keyof BaseEntity>;
+
+export interface EntityService<T extends BaseEntity, P extends QueryParams = QueryParams> {
+  list(params?: P, options?: RequestOptions): Promise<APIResponse<ListResponse<T>>>;
+  get(id: string, options?: RequestOptions): Promise<APIResponse<T>>;
+  create(data: EntityInput<T>, options?: RequestOptions): Promise<APIResponse<T>>;
+  update(id: string, data: EntityInput<T>, options?: RequestOptions): Promise<APIResponse<T>>;
+  patch(id: string, data: Partial<EntityInput<T>>, options?: RequestOptions): Promise<APIResponse<T>>;
+  remove(id: string, options?: RequestOptions): Promise<APIResponse<null>>;
+}
+
+/**
+ * Typed CRUD methods for a REST resource on the STC API, e.g.
+ * `const jobService = createEntityService<Job>('/jobs', jobSchema)`
+ * With an entity schema, every response is validated on arrival.
+ * Pass a client to run it elsewhere, e.g. createServerApi() in a server component.
+ */
+export function createEntityService<T extends BaseEntity, P extends QueryParams = QueryParams>(
+  resourcePath: string,
+  entitySchema?: Schema<T>,
+  client: AxiosInstance = stcApi
+): EntityService<T, P> {
+  const basePath = resourcePath.replace(/\/+$/, '');
+  const entityPath = (id: string) => `${basePath}/${encodeURIComponent(id)}`;
+  const listSchema =
+    entitySchema &&
+    schema.object<ListResponse<T>>(
+      {
+        data: schema.array(entitySchema),
+        total: schema.number(),
+        page: schema.number(),
+        limit: schema.number(),
+      },
+      { name: 'ListResponse' }
+    );
+
+  return {
+    /**
+     * Get a page of entities; params become the query string
+     */
+    list(params?: P, options?: RequestOptions): Promise<APIResponse<ListResponse<T>>> {
+      return client
+        .get(buildApiUrl(basePath, params), { ...options, schema: listSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Get a single entity by id
+     */
+    get(id: string, options?: RequestOptions): Promise<APIResponse<T>> {
+      return client
+        .get(buildApiUrl(entityPath(id)), { ...options, schema: entitySchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Create an entity
+     */
+    create(data: EntityInput<T>, options?: RequestOptions): Promise<APIResponse<T>> {
+      return client
+        .post(buildApiUrl(basePath), data, { ...options, schema: entitySchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Replace an entity
+     */
+    update(id: string, data: EntityInput<T>, options?: RequestOptions): Promise<APIResponse<T>> {
+      return client
+        .put(buildApiUrl(entityPath(id)), data, { ...options, schema: entitySchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Change some fields of an entity
+     */
+    patch(id: string, data: Partial<EntityInput<T>>, options?: RequestOptions): Promise<APIResponse<T>> {
+      return client
+        .patch(buildApiUrl(entityPath(id)), data, { ...options, schema: entitySchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Delete an entity
+     */
+    remove(id: string, options?: RequestOptions): Promise<APIResponse<null>> {
+      return client.delete(buildApiUrl(entityPath(id)), options).then((res) => res.data);
+    },
+  };
+}
@@ -0,0 +1,220 @@
+// Generated by scripts/generate-api.mjs from openapi/stc-api.json - do not edit.
+// Change the spec and run `npm run generate:api` instead.
+
+import type { AxiosInstance } from 'axios';
+import { APIResponse, RequestOptions } from '../types/api';
+import stcApi from '../instances/stc';
+import { schema } from '../utils/schema';
+import type {
+  AuthCredentials,
+  LoginResponse,
+  MfaEnrollment,
+  MfaVerification,
+  OidcIdentity,
+  PasswordResetData,
+  RecoveryCodes,
+  RefreshResponse,
+  RegistrationData,
+  SignInResponse,
+  User,
+} from './types';
+import {
+  loginResponseSchema,
+  mfaEnrollmentSchema,
+  recoveryCodesSchema,
+  refreshResponseSchema,
+  signInResponseSchema,
+  userSchema,
+} from './schemas';
+
+const validateResetTokenResponseSchema = schema.object<{ email?: string }>({
+  email: schema.optional(schema.string()),
+});
+
+// Authentication and account security
+// Pass a client to run the same calls through another instance, e.g. createServerApi()
+export function createAuthApi(client: AxiosInstance = stcApi) {
+  return {
+    /**
+     * Sign in with email and password.
+     * Accounts with two-factor authentication get an MfaChallenge instead of a session
+     */
+    signIn(data: AuthCredentials, options?: RequestOptions): Promise<APIResponse<SignInResponse>> {
+      return client
+        .post('/auth/sign-in', data, { ...options, schema: signInResponseSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Complete a two-factor sign-in with a TOTP code or a recovery code
+     */
+    verifyMfa(
+      data: MfaVerification,
+      options?: RequestOptions
+    ): Promise<APIResponse<LoginResponse>> {
+      return client
+        .post('/auth/sign-in/mfa', data, { ...options, schema: loginResponseSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Find or create the user for an identity verified by the OIDC callback route
+     */
+    signInWithOidc(
+      data: OidcIdentity,
+      options?: RequestOptions
+    ): Promise<APIResponse<LoginResponse>> {
+      return client
+        .post('/auth/sign-in/oidc', data, { ...options, schema: loginResponseSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Register a new tradesman or company account
+     */
+    signUp(data: RegistrationData, options?: RequestOptions): Promise<APIResponse<LoginResponse>> {
+      return client
+        .post('/auth/sign-up', data, { ...options, schema: loginResponseSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Decode the bearer token into the signed-in user
+     */
+    decodeJwt(options?: RequestOptions): Promise<APIResponse<User>> {
+      return client
+        .post('/auth/decode-jwt', undefined, { ...options, schema: userSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Exchange a refresh token for a new token pair
+     */
+    refreshToken(
+      data: { refreshToken: string },
+      options?: RequestOptions
+    ): Promise<APIResponse<RefreshResponse>> {
+      return client
+        .post(
+          '/auth/refresh',
+          data,
+          { ...options, skipAuthRefresh: true, schema: refreshResponseSchema }
+        )
+        .then((res) => res.data);
+    },
+
+    /**
+     * Request a password reset email
+     */
+    requestPasswordReset(
+      data: { email: string },
+      options?: RequestOptions
+    ): Promise<APIResponse<null>> {
+      return client.post('/auth/forgot-password', data, options).then((res) => res.data);
+    },
+
+    /**
+     * Check a password reset token before showing the form
+     */
+    validateResetToken(
+      data: { token: string },
+      options?: RequestOptions
+    ): Promise<APIResponse<{ email?: string }>> {
+      return client
+        .post(
+          '/auth/reset-password/validate',
+          data,
+          { ...options, schema: validateResetTokenResponseSchema }
+        )
+        .then((res) => res.data);
+    },
+
+    /**
+     * Set a new password with a reset token
+     */
+    resetPassword(data: PasswordResetData, options?: RequestOptions): Promise<APIResponse<null>> {
+      return client.post('/auth/reset-password', data, options).then((res) => res.data);
+    },
+
+    /**
+     * Verify an email address with the token from the verification link
+     */
+    verifyEmail(data: { token: string }, options?: RequestOptions): Promise<APIResponse<User>> {
+      return client
+        .post('/auth/verify-email', data, { ...options, schema: userSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Send a new verification email to the signed-in user
+     */
+    resendVerification(options?: RequestOptions): Promise<APIResponse<null>> {
+      return client.post('/auth/verify-email/resend', undefined, options).then((res) => res.data);
+    },
+
+    /**
+     * Start two-factor enrollment
+     */
+    startMfaEnrollment(options?: RequestOptions): Promise<APIResponse<MfaEnrollment>> {
+      return client
+        .post('/auth/mfa/enroll', undefined, { ...options, schema: mfaEnrollmentSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Confirm enrollment with a code from the authenticator app
+     */
+    confirmMfaEnrollment(
+      data: { code: string },
+      options?: RequestOptions
+    ): Promise<APIResponse<RecoveryCodes>> {
+      return client
+        .post('/auth/mfa/enroll/confirm', data, { ...options, schema: recoveryCodesSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Turn two-factor authentication off
+     */
+    disableMfa(data: { code: string }, options?: RequestOptions): Promise<APIResponse<null>> {
+      return client.post('/auth/mfa/disable', data, options).then((res) => res.data);
+    },
+
+    /**
+     * Replace the recovery codes
+     */
+    regenerateRecoveryCodes(
+      data: { code: string },
+      options?: RequestOptions
+    ): Promise<APIResponse<RecoveryCodes>> {
+      return client
+        .post('/auth/mfa/recovery-codes', data, { ...options, schema: recoveryCodesSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Start a session as another user (requires the user:impersonate permission)
+     */
+    impersonateUser(
+      data: { userId: string },
+      options?: RequestOptions
+    ): Promise<APIResponse<LoginResponse>> {
+      return client
+        .post('/auth/impersonate', data, { ...options, schema: loginResponseSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * End an impersonation session
+     */
+    endImpersonation(options?: RequestOptions): Promise<APIResponse<null>> {
+      return client.post('/auth/impersonate/end', undefined, options).then((res) => res.data);
+    },
+  };
+}
+
+export type AuthApi = ReturnType<typeof createAuthApi>;
+
+const authApi = createAuthApi();
+
+export default authApi;
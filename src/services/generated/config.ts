@@ -0,0 +1,43 @@
+// Generated by scripts/generate-api.mjs from openapi/stc-api.json - do not edit.
+// Change the spec and run `npm run generate:api` instead.
+
+import type { AxiosInstance } from 'axios';
+import { APIResponse, RequestOptions } from '../types/api';
+import stcApi from '../instances/stc';
+import type { Config } from './types';
+import { configSchema } from './schemas';
+
+// Application configuration
+// Pass a client to run the same calls through another instance, e.g. createServerApi()
+export function createConfigApi(client: AxiosInstance = stcApi) {
+  return {
+    /**
+     * Get application configuration
+     */
+    getConfig(options?: RequestOptions): Promise<APIResponse<Config>> {
+      return client.get('/configs', { ...options, schema: configSchema }).then((res) => res.data);
+    },
+
+    /**
+     * Update application configuration (admin only)
+     */
+    updateConfig(data: Config, options?: RequestOptions): Promise<APIResponse<Config>> {
+      return client
+        .put('/configs', data, { ...options, schema: configSchema })
+        .then((res) => res.data);
+    },
+
+    /**
+     * Get specific config value by key
+     */
+    getConfigValue(key: string, options?: RequestOptions): Promise<APIResponse<unknown>> {
+      return client.get(`/configs/${encodeURIComponent(key)}`, options).then((res) => res.data);
+    },
+  };
+}
+
+export type ConfigApi = ReturnType<typeof createConfigApi>;
+
+const configApi = createConfigApi();
+
+export default configApi;
@@ -0,0 +1,230 @@
+// Generated by scripts/generate-api.mjs from openapi/stc-api.json - do not edit.
+// Change the spec and run `npm run generate:api` instead.
+
+import { Schema, schema } from '../utils/schema';
+import type {
+  AuthCredentials,
+  AccountType,
+  RegistrationBase,
+  TradesmanRegistration,
+  CompanyRegistration,
+  RegistrationData,
+  User,
+  LoginResponse,
+  MfaChallenge,
+  SignInResponse,
+  MfaVerification,
+  MfaEnrollment,
+  RecoveryCodes,
+  RefreshResponse,
+  OidcIdentity,
+  PasswordResetData,
+  Config,
+  Job,
+  JobApplication,
+  Message,
+} from './types';
+
+export const authCredentialsSchema = schema.object<AuthCredentials>(
+  {
+    email: schema.string(),
+    password: schema.string(),
+  },
+  { name: 'AuthCredentials' }
+);
+
+export const accountTypeSchema: Schema<AccountType> = schema.literal('tradesman', 'company');
+
+export const registrationBaseSchema = schema.object<RegistrationBase>(
+  {
+    email: schema.string(),
+    password: schema.string(),
+    firstName: schema.string(),
+    lastName: schema.string(),
+    phone: schema.optional(schema.string()),
+  },
+  { name: 'RegistrationBase' }
+);
+
+export const tradesmanRegistrationSchema = schema.object<TradesmanRegistration>(
+  {
+    email: schema.string(),
+    password: schema.string(),
+    firstName: schema.string(),
+    lastName: schema.string(),
+    phone: schema.optional(schema.string()),
+    accountType: schema.literal('tradesman'),
+    trade: schema.string(),
+    licenseNumber: schema.optional(schema.string()),
+    yearsOfExperience: schema.optional(schema.number()),
+    serviceArea: schema.optional(schema.string()),
+  },
+  { name: 'TradesmanRegistration' }
+);
+
+export const companyRegistrationSchema = schema.object<CompanyRegistration>(
+  {
+    email: schema.string(),
+    password: schema.string(),
+    firstName: schema.string(),
+    lastName: schema.string(),
+    phone: schema.optional(schema.string()),
+    accountType: schema.literal('company'),
+    companyName: schema.string(),
+    jobTitle: schema.optional(schema.string()),
+    companyWebsite: schema.optional(schema.string()),
+  },
+  { name: 'CompanyRegistration' }
+);
+
+export const registrationDataSchema: Schema<RegistrationData> = schema.union(
+  tradesmanRegistrationSchema,
+  companyRegistrationSchema
+);
+
+export const userSchema = schema.object<User>(
+  {
+    id: schema.string(),
+    email: schema.string(),
+    firstName: schema.optional(schema.string()),
+    lastName: schema.optional(schema.string()),
+    role: schema.optional(schema.string()),
+    verified: schema.optional(schema.boolean()),
+    company_id: schema.optional(schema.string()),
+    tradesman_id: schema.optional(schema.string()),
+    mfaEnabled: schema.optional(schema.boolean()),
+  },
+  { name: 'User' }
+);
+
+export const loginResponseSchema = schema.object<LoginResponse>(
+  {
+    user: userSchema,
+    token: schema.string(),
+    refreshToken: schema.optional(schema.string()),
+    expiresIn: schema.optional(schema.number()),
+    message: schema.optional(schema.string()),
+  },
+  { name: 'LoginResponse' }
+);
+
+export const mfaChallengeSchema = schema.object<MfaChallenge>(
+  {
+    mfaRequired: schema.literal(true),
+    mfaToken: schema.string(),
+    expiresIn: schema.optional(schema.number()),
+  },
+  { name: 'MfaChallenge' }
+);
+
+export const signInResponseSchema: Schema<SignInResponse> = schema.union(
+  loginResponseSchema,
+  mfaChallengeSchema
+);
+
+export const mfaVerificationSchema = schema.object<MfaVerification>(
+  {
+    mfaToken: schema.string(),
+    code: schema.optional(schema.string()),
+    recoveryCode: schema.optional(schema.string()),
+  },
+  { name: 'MfaVerification' }
+);
+
+export const mfaEnrollmentSchema = schema.object<MfaEnrollment>(
+  {
+    secret: schema.string(),
+    otpauthUrl: schema.string(),
+  },
+  { name: 'MfaEnrollment' }
+);
+
+export const recoveryCodesSchema = schema.object<RecoveryCodes>(
+  {
+    recoveryCodes: schema.array(schema.string()),
+  },
+  { name: 'RecoveryCodes' }
+);
+
+export const refreshResponseSchema = schema.object<RefreshResponse>(
+  {
+    token: schema.string(),
+    refreshToken: schema.string(),
+    expiresIn: schema.optional(schema.number()),
+  },
+  { name: 'RefreshResponse' }
+);
+
+export const oidcIdentitySchema = schema.object<OidcIdentity>(
+  {
+    issuer: schema.string(),
+    subject: schema.string(),
+    email: schema.optional(schema.string()),
+    emailVerified: schema.optional(schema.boolean()),
+    firstName: schema.optional(schema.string()),
+    lastName: schema.optional(schema.string()),
+    idToken: schema.string(),
+  },
+  { name: 'OidcIdentity' }
+);
+
+export const passwordResetDataSchema = schema.object<PasswordResetData>(
+  {
+    token: schema.string(),
+    password: schema.string(),
+  },
+  { name: 'PasswordResetData' }
+);
+
+export const configSchema = schema.object<Config>(
+  {
+    appName: schema.optional(schema.string()),
+    version: schema.optional(schema.string()),
+    environment: schema.optional(schema.string()),
+    features: schema.optional(schema.record(schema.boolean())),
+    settings: schema.optional(schema.record(schema.unknown())),
+    apiStatus: schema.optional(schema.string()),
+    lastRefresh: schema.optional(schema.string()),
+    job_board_page_size: schema.optional(schema.number()),
+  },
+  { name: 'Config', open: true }
+);
+
+export const jobSchema = schema.object<Job>(
+  {
+    id: schema.string(),
+    title: schema.string(),
+    location: schema.optional(schema.string()),
+    description: schema.optional(schema.string()),
+    company_id: schema.string(),
+    created_at: schema.optional(schema.string()),
+    updated_at: schema.optional(schema.string()),
+  },
+  { name: 'Job' }
+);
+
+export const jobApplicationSchema = schema.object<JobApplication>(
+  {
+    id: schema.string(),
+    job_id: schema.string(),
+    tradesman_id: schema.string(),
+    company_id: schema.string(),
+    created_at: schema.optional(schema.string()),
+    updated_at: schema.optional(schema.string()),
+  },
+  { name: 'JobApplication' }
+);
+
+export const messageSchema = schema.object<Message>(
+  {
+    id: schema.string(),
+    sender_id: schema.string(),
+    company_id: schema.optional(schema.string()),
+    tradesman_id: schema.optional(schema.string()),
+    job_id: schema.optional(schema.string()),
+    body: schema.string(),
+    created_at: schema.optional(schema.string()),
+    updated_at: schema.optional(schema.string()),
+  },
+  { name: 'Message' }
+);
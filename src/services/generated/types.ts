@@ -0,0 +1,158 @@
+// Generated by scripts/generate-api.mjs from openapi/stc-api.json - do not edit.
+// Change the spec and run `npm run generate:api` instead.
+
+export interface AuthCredentials {
+  email: string;
+  password: string;
+}
+
+export type AccountType = 'tradesman' | 'company';
+
+export interface RegistrationBase {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+}
+
+export interface TradesmanRegistration extends RegistrationBase {
+  accountType: 'tradesman';
+  trade: string;
+  licenseNumber?: string;
+  yearsOfExperience?: number;
+  serviceArea?: string;
+}
+
+export interface CompanyRegistration extends RegistrationBase {
+  accountType: 'company';
+  companyName: string;
+  jobTitle?: string;
+  companyWebsite?: string;
+}
+
+export type RegistrationData = TradesmanRegistration | CompanyRegistration;
+
+export interface User {
+  id: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  role?: string;
+  verified?: boolean;
+  company_id?: string;
+  tradesman_id?: string;
+  // Two-factor authentication (TOTP) is enabled on the account
+  mfaEnabled?: boolean;
+}
+
+export interface LoginResponse {
+  user: User;
+  token: string;
+  refreshToken?: string;
+  // Access token lifetime in seconds
+  expiresIn?: number;
+  message?: string;
+}
+
+// Returned by sign-in instead of a session when the account has two-factor authentication enabled
+export interface MfaChallenge {
+  mfaRequired: true;
+  // Short-lived token identifying the half-finished sign-in
+  mfaToken: string;
+  // Challenge lifetime in seconds
+  expiresIn?: number;
+}
+
+export type SignInResponse = LoginResponse | MfaChallenge;
+
+// Second sign-in step: either a TOTP code or one of the recovery codes
+export interface MfaVerification {
+  mfaToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface MfaEnrollment {
+  // Base32 secret for manual entry in an authenticator app
+  secret: string;
+  // otpauth:// URI rendered as a QR code
+  otpauthUrl: string;
+}
+
+export interface RecoveryCodes {
+  recoveryCodes: string[];
+}
+
+export interface RefreshResponse {
+  token: string;
+  refreshToken: string;
+  // Access token lifetime in seconds
+  expiresIn?: number;
+}
+
+// Identity asserted by a corporate OpenID Connect provider
+export interface OidcIdentity {
+  issuer: string;
+  subject: string;
+  email?: string;
+  emailVerified?: boolean;
+  firstName?: string;
+  lastName?: string;
+  idToken: string;
+}
+
+export interface PasswordResetData {
+  token: string;
+  password: string;
+}
+
+// Application configuration; keys can be added without an API release
+export interface Config {
+  appName?: string;
+  version?: string;
+  environment?: string;
+  features?: Record<string, boolean>;
+  settings?: Record<string, unknown>;
+  apiStatus?: string;
+  lastRefresh?: string;
+  // Default page size for job board lists
+  job_board_page_size?: number;
+  [key: string]: unknown;
+}
+
+// Job board listing
+export interface Job {
+  id: string;
+  title: string;
+  location?: string;
+  description?: string;
+  // Company that posted the job
+  company_id: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// A tradesman's application to a job
+export interface JobApplication {
+  id: string;
+  job_id: string;
+  tradesman_id: string;
+  // Company that posted the job
+  company_id: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Message between a tradesman and a company, optionally about a job
+export interface Message {
+  id: string;
+  // User who sent the message
+  sender_id: string;
+  company_id?: string;
+  tradesman_id?: string;
+  job_id?: string;
+  body: string;
+  created_at?: string;
+  updated_at?: string;
+}
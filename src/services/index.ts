@@ -1,14 +1,88 @@
 // Service instances
-export { default as stcApi } from './instances/stc';
+export {
+  default as stcApi,
+  refreshAccessToken,
+  subscribeToAuthTokens,
+} from './instances/stc';
 export { default as defaultAxios } from './instances/axios';
+export { createServerApi } from './instances/server';
 
 // Core services
-export { default as configService } from './config';
-export { default as authService } from './auth';
+export { default as configService, createConfigService } from './config';
+export { default as authService, createAuthService, isMfaChallenge } from './auth';
+export { createEntityService } from './entity';
+export {
+  default as jobService,
+  createJobService,
+  jobApplicationService,
+  createJobApplicationService,
+} from './jobs';
+export { default as messageService, createMessageService } from './messages';
 
 // Utility functions
-export { appendQueryParamsToUrl, buildApiUrl } from './utils/url';
+export {
+  MOCK_API_PATH,
+  appendQueryParamsToUrl,
+  buildApiUrl,
+  getApiBaseUrl,
+  isMockApiEnabled,
+} from './utils/url';
+export {
+  getStoredTokens,
+  storeTokens,
+  clearStoredTokens,
+  decodeTokenExpiry,
+  decodeTokenSubject,
+  resolveTokenExpiry,
+} from './utils/tokens';
+export {
+  getStoredImpersonation,
+  storeImpersonation,
+  IMPERSONATED_BY_HEADER,
+} from './utils/impersonation';
+export {
+  ApiError,
+  isApiError,
+  isCancelledError,
+  toApiError,
+  getErrorStatus,
+  INVALID_RESPONSE_CODE,
+} from './utils/errors';
+export { schema, checkSchema, formatSchemaCheck } from './utils/schema';
 
 // Types
-export type { APIResponse, Config, QueryParams, ListResponse } from './types/api';
-export type { AuthCredentials, User, LoginResponse } from './auth';
\ No newline at end of file
+export type {
+  APIResponse,
+  BaseEntity,
+  Config,
+  QueryParams,
+  ListResponse,
+  RequestOptions,
+} from './types/api';
+export type {
+  AuthCredentials,
+  User,
+  LoginResponse,
+  RefreshResponse,
+  AccountType,
+  RegistrationData,
+  TradesmanRegistration,
+  CompanyRegistration,
+  PasswordResetData,
+  OidcIdentity,
+  SignInResponse,
+  MfaChallenge,
+  MfaVerification,
+  MfaEnrollment,
+  RecoveryCodes,
+  AuthService,
+} from './auth';
+export type { EntityInput, EntityService } from './entity';
+export type { Job, JobApplication, JobQueryParams } from './jobs';
+export type { Message } from './messages';
+export type { AuthTokenEvent } from './instances/stc';
+export type { ServerRequestContext } from './instances/server';
+export type { StoredTokens } from './utils/tokens';
+export type { ApiErrorKind } from './utils/errors';
+export type { Schema, SchemaIssue, SchemaCheck, Infer } from './utils/schema';
+export type { StoredImpersonation } from './utils/impersonation';
\ No newline at end of file
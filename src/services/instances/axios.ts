@@ -1,3 +1,16 @@
 import axios from "axios";
+import { toApiError } from "../utils/errors";
+import { validateResponse } from "../utils/validate";
 
-export default axios.create();
\ No newline at end of file
+const instance = axios.create();
+
+// Same-origin route handler calls reject with the same ApiError shape as stcApi
+instance.interceptors.response.use(
+  (response) => response,
+  (error) => Promise.reject(toApiError(error)),
+);
+
+// Check payloads against the schema the service declared
+instance.interceptors.response.use(validateResponse);
+
+export default instance;
@@ -0,0 +1,67 @@
+import axios, { AxiosInstance } from "axios";
+import {
+  IMPERSONATOR_COOKIE_NAME,
+  IMPERSONATOR_ID_COOKIE_NAME,
+  SESSION_COOKIE_NAME,
+} from "@/lib/session-cookie";
+import { toApiError } from "../utils/errors";
+import { validateResponse } from "../utils/validate";
+import { getApiBaseUrl } from "../utils/url";
+import { IMPERSONATED_BY_HEADER } from "../utils/impersonation";
+
+const REQUEST_ID_HEADER = "x-request-id";
+
+// Incoming headers passed on to the STC API as they are. Not x-forwarded-for: the client can
+// set it to anything, and the peer address is not available here to append.
+const FORWARDED_HEADERS = ["accept-language", "user-agent"];
+
+// What createServerApi needs from the incoming request: a route handler's NextRequest fits as
+// it is, and so do next/headers' cookies() and headers()
+export interface ServerRequestContext {
+  cookies: { get(name: string): { value: string } | undefined };
+  headers: { get(name: string): string | null };
+}
+
+/**
+ * STC API client for server components and route handlers, acting as the caller of the
+ * incoming request: the session cookie (or an incoming Authorization header) becomes the
+ * bearer token and the request id is forwarded, or created when the request had none.
+ * There is no token refresh or login redirect here; a 401 rejects like any other ApiError.
+ * Create one per request and pass it to the service factories, e.g. createConfigService(client).
+ */
+export function createServerApi({ cookies, headers }: ServerRequestContext): AxiosInstance {
+  const token = cookies.get(SESSION_COOKIE_NAME)?.value;
+  // Tag calls made while an admin views the app as another user, like stcApi does in the browser
+  const impersonatorId = cookies.get(IMPERSONATOR_COOKIE_NAME)
+    ? cookies.get(IMPERSONATOR_ID_COOKIE_NAME)?.value
+    : undefined;
+  const authorization = token ? `Bearer ${token}` : headers.get("authorization");
+  const forwarded = Object.fromEntries(
+    FORWARDED_HEADERS.flatMap((name) => {
+      const value = headers.get(name);
+      return value ? [[name, value]] : [];
+    })
+  );
+
+  const instance = axios.create({
+    // Configured, never taken from the Host header: the caller's token goes to this URL
+    baseURL: getApiBaseUrl(),
+    timeout: 10000,
+    headers: {
+      "Content-Type": "application/json",
+      ...forwarded,
+      ...(authorization ? { Authorization: authorization } : {}),
+      ...(impersonatorId ? { [IMPERSONATED_BY_HEADER]: impersonatorId } : {}),
+      [REQUEST_ID_HEADER]: headers.get(REQUEST_ID_HEADER) ?? crypto.randomUUID(),
+    },
+  });
+
+  // Same ApiError shape and response validation as the browser client
+  instance.interceptors.response.use(
+    (response) => response,
+    (error) => Promise.reject(toApiError(error)),
+  );
+  instance.interceptors.response.use(validateResponse);
+
+  return instance;
+}
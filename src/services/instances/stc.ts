@@ -1,46 +1,221 @@
-import axios from "axios";
+import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
+import defaultAxios from "./axios";
+import { LOGIN_PATH, buildLoginRedirect } from "@/lib/route-access";
+import {
+  StoredTokens,
+  clearStoredTokens,
+  getStoredTokens,
+  resolveTokenExpiry,
+  storeTokens,
+} from "../utils/tokens";
+import { IMPERSONATED_BY_HEADER, getStoredImpersonation } from "../utils/impersonation";
+import { ApiError, toApiError } from "../utils/errors";
+import { getMaxRetries, getRetryDelay, isRetryableError, waitForRetry } from "../utils/retry";
+import { createDedupingAdapter } from "../utils/dedupe";
+import { validateResponse } from "../utils/validate";
+import { getApiBaseUrl } from "../utils/url";
+import type { Schema } from "../utils/schema";
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // Do not attempt a token refresh when this request returns 401
+    skipAuthRefresh?: boolean;
+    // Retry transient failures: false opts out, a number sets the retry count,
+    // true opts a non-idempotent request in (GET/HEAD/OPTIONS/PUT/DELETE retry by default)
+    retry?: boolean | number;
+    // Share identical concurrent GETs (same URL, params and auth) unless set to false
+    dedupe?: boolean;
+    // Expected shape of `result.data`; a mismatch rejects with a validation ApiError
+    schema?: Schema<unknown>;
+  }
+}
+
+type RetryableRequestConfig = InternalAxiosRequestConfig & {
+  _authRetried?: boolean;
+  _retryCount?: number;
+};
+
+export type AuthTokenEvent =
+  | { type: "refreshed"; tokens: StoredTokens }
+  | { type: "expired" };
 
 const instance = axios.create({
-  baseURL: API_BASE_URL,
+  baseURL: getApiBaseUrl(),
   timeout: 10000,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
+// Identical GETs in flight at the same time share one network call
+instance.defaults.adapter = createDedupingAdapter(axios.getAdapter(instance.defaults.adapter));
+
+// Listeners notified when tokens are rotated or the session can no longer be refreshed
+const authTokenListeners = new Set<(event: AuthTokenEvent) => void>();
+
+/**
+ * Subscribe to token refresh/expiry events raised by the interceptors
+ */
+export function subscribeToAuthTokens(
+  listener: (event: AuthTokenEvent) => void
+): () => void {
+  authTokenListeners.add(listener);
+  return () => {
+    authTokenListeners.delete(listener);
+  };
+}
+
+function notifyAuthTokenListeners(event: AuthTokenEvent) {
+  authTokenListeners.forEach((listener) => listener(event));
+}
+
+// The refresh call currently in flight, shared by every request that hit a 401
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Rotate the token pair, joining a refresh that is already in flight
+ */
+export function refreshAccessToken(): Promise<string> {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const { refreshToken } = getStoredTokens();
+      if (!refreshToken) {
+        throw new Error("No refresh token available");
+      }
+
+      const { default: authService } = await import("../auth");
+      const response = await authService.refresh(refreshToken);
+      const { token, refreshToken: nextRefreshToken, expiresIn } = response.result.data;
+
+      const tokens: StoredTokens = {
+        token,
+        refreshToken: nextRefreshToken,
+        expiresAt: resolveTokenExpiry(token, expiresIn),
+      };
+      storeTokens(tokens);
+
+      // Keep the server session cookie in step with the rotated token
+      authService.updateSession(token).catch((error) => {
+        console.error("Failed to update session cookie:", error);
+      });
+
+      notifyAuthTokenListeners({ type: "refreshed", tokens });
+      return token;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+}
+
+function handleUnauthorized() {
+  clearStoredTokens();
+  notifyAuthTokenListeners({ type: "expired" });
+
+  // Clear the session cookie too, otherwise the server still sees a signed-in user
+  const clearSession = defaultAxios.delete('/api/auth/session').catch(() => undefined);
+  // Redirect to login page on unauthorized, coming back here afterwards
+  const { pathname, search } = window.location;
+  if (pathname !== LOGIN_PATH) {
+    clearSession.then(() => {
+      window.location.href = buildLoginRedirect(pathname, search);
+    });
+  }
+}
+
 // Request interceptor for adding auth token
 instance.interceptors.request.use(
   (config) => {
     // In browser environment, get token from localStorage
-    if (typeof window !== 'undefined') {
-      const token = localStorage.getItem("token");
+    if (typeof window !== 'undefined' && !config.headers.Authorization) {
+      const { token } = getStoredTokens();
       if (token) {
         config.headers.Authorization = `Bearer ${token}`;
       }
     }
+
+    // Tag everything done on behalf of an admin viewing the app as another user
+    const impersonation = getStoredImpersonation();
+    if (impersonation) {
+      config.headers[IMPERSONATED_BY_HEADER] = impersonation.impersonator.id;
+    }
     return config;
   },
   (error) => Promise.reject(error),
 );
 
-// Response interceptor for handling common errors
+// Response interceptor for handling common errors.
+// Every failure leaves this interceptor as an ApiError.
 instance.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Handle unauthorized access
-      if (typeof window !== 'undefined') {
-        localStorage.removeItem("token");
-        // Redirect to login page on unauthorized
-        if (window.location.pathname !== '/login') {
-          window.location.href = '/login';
+  async (error: AxiosError) => {
+    const originalRequest = error.config as RetryableRequestConfig | undefined;
+
+    // Retry transient failures of idempotent requests with backoff
+    if (originalRequest && isRetryableError(error)) {
+      const maxRetries = getMaxRetries(originalRequest);
+      const retryCount = originalRequest._retryCount ?? 0;
+      const request = `${originalRequest.method?.toUpperCase()} ${originalRequest.url}`;
+      const reason = error.response ? `HTTP ${error.response.status}` : error.code ?? "network error";
+      const delay = retryCount < maxRetries ? getRetryDelay(retryCount + 1, error) : null;
+
+      if (delay !== null) {
+        originalRequest._retryCount = retryCount + 1;
+        console.warn(
+          `[STC API] ${request} failed (${reason}); retry ${retryCount + 1}/${maxRetries} in ${delay}ms`
+        );
+        const signal = originalRequest.signal as AbortSignal | undefined;
+        try {
+          await waitForRetry(delay, signal);
+        } catch (waitError) {
+          // Aborted during the backoff: report the cancellation, not the failure being retried
+          if (signal?.aborted) {
+            return Promise.reject(
+              new ApiError("cancelled", "Request was cancelled", { cause: waitError })
+            );
+          }
+          return Promise.reject(toApiError(error));
         }
+        return instance(originalRequest);
+      }
+
+      if (retryCount > 0) {
+        console.error(`[STC API] ${request} failed (${reason}) after ${retryCount} retries`);
       }
     }
-    return Promise.reject(error);
+
+    if (
+      error.response?.status === 401 &&
+      typeof window !== 'undefined' &&
+      !originalRequest?.skipAuthRefresh
+    ) {
+      // Refresh once and replay the request with the new token
+      if (originalRequest && !originalRequest._authRetried && getStoredTokens().refreshToken) {
+        originalRequest._authRetried = true;
+
+        try {
+          // Another request may already have rotated the token while this one was in flight
+          const { token: currentToken } = getStoredTokens();
+          const sentWithCurrentToken =
+            originalRequest.headers.Authorization === `Bearer ${currentToken}`;
+          const token =
+            currentToken && !sentWithCurrentToken ? currentToken : await refreshAccessToken();
+          originalRequest.headers.Authorization = `Bearer ${token}`;
+          return instance(originalRequest);
+        } catch (refreshError) {
+          console.error("Token refresh failed:", refreshError);
+        }
+      }
+
+      // Handle unauthorized access
+      handleUnauthorized();
+    }
+    return Promise.reject(toApiError(error));
   },
 );
 
-export default instance;
\ No newline at end of file
+// Check payloads against the schema the service declared; runs after the error handling above
+instance.interceptors.response.use(validateResponse);
+
+export default instance;
@@ -0,0 +1,27 @@
+import type { AxiosInstance } from 'axios';
+import { QueryParams } from './types/api';
+import stcApi from './instances/stc';
+import { createEntityService } from './entity';
+import { jobApplicationSchema, jobSchema } from './generated/schemas';
+import type { Job, JobApplication } from './generated/types';
+
+// Job board types are generated from openapi/stc-api.json
+export type { Job, JobApplication };
+
+// Filters accepted by GET /jobs on top of the paging params
+export interface JobQueryParams extends QueryParams {
+  location?: string;
+  company_id?: string;
+}
+
+export const createJobService = (client: AxiosInstance = stcApi) =>
+  createEntityService<Job, JobQueryParams>('/jobs', jobSchema, client);
+
+export const createJobApplicationService = (client: AxiosInstance = stcApi) =>
+  createEntityService<JobApplication>('/applications', jobApplicationSchema, client);
+
+const jobService = createJobService();
+
+export const jobApplicationService = createJobApplicationService();
+
+export default jobService;
@@ -0,0 +1,15 @@
+import type { AxiosInstance } from 'axios';
+import stcApi from './instances/stc';
+import { createEntityService } from './entity';
+import { messageSchema } from './generated/schemas';
+import type { Message } from './generated/types';
+
+// The Message type is generated from openapi/stc-api.json
+export type { Message };
+
+export const createMessageService = (client: AxiosInstance = stcApi) =>
+  createEntityService<Message>('/messages', messageSchema, client);
+
+const messageService = createMessageService();
+
+export default messageService;
@@ -1,3 +1,5 @@
+import type { Config as ApiConfig } from "../generated/types";
+
 // Common API response types
 export interface APIResponse<T = unknown> {
   result: {
@@ -7,6 +9,12 @@ export interface APIResponse<T = unknown> {
   };
 }
 
+// Per-call options accepted by every service method
+export interface RequestOptions {
+  // Aborts the request; the call then rejects with an ApiError of kind "cancelled"
+  signal?: AbortSignal;
+}
+
 // Base entity interfaces
 export interface BaseEntity {
   id: string;
@@ -14,19 +22,13 @@ export interface BaseEntity {
   updated_at?: string;
 }
 
-// Config entity interface
-export interface Config extends Record<string, unknown> {
-  appName?: string;
-  version?: string;
-  environment?: string;
-  features?: Record<string, boolean>;
-  settings?: Record<string, unknown>;
-  apiStatus?: string;
+// Config as returned by the API (generated from the spec), plus the fields the client fills in
+// when it falls back to placeholder data
+export interface Config extends ApiConfig {
   error?: string;
   errorDetails?: string;
   expectedEndpoint?: string;
   lastAttempt?: string;
-  lastRefresh?: string;
   fallbackData?: boolean;
 }
 
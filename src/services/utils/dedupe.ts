@@ -0,0 +1,123 @@
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosResponse,
+  CanceledError,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { IMPERSONATED_BY_HEADER } from './impersonation';
+
+interface SharedRequest {
+  promise: Promise<AxiosResponse>;
+  controller: AbortController;
+  // Callers still waiting; the network call is aborted once every one of them gave up
+  waiting: number;
+}
+
+const inFlightRequests = new Map<string, SharedRequest>();
+
+function sortParams(params: unknown): unknown {
+  if (!params || typeof params !== 'object' || params instanceof URLSearchParams) {
+    return params;
+  }
+  return Object.fromEntries(
+    Object.entries(params).sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+/**
+ * Identity of a GET: method, full URL with (sorted) params, and who is asking
+ */
+export function getRequestKey(config: InternalAxiosRequestConfig): string {
+  return JSON.stringify([
+    (config.method ?? 'get').toUpperCase(),
+    axios.getUri({ ...config, params: sortParams(config.params) }),
+    config.headers.get('Authorization') ?? null,
+    config.headers.get(IMPERSONATED_BY_HEADER) ?? null,
+  ]);
+}
+
+function shouldDedupe(config: InternalAxiosRequestConfig): boolean {
+  // Server renders serve different visitors; only coalesce inside one browser tab
+  return (
+    typeof window !== 'undefined' &&
+    config.dedupe !== false &&
+    (config.method ?? 'get').toLowerCase() === 'get'
+  );
+}
+
+// Each caller gets its own response/error object: axios transforms them in place afterwards
+function forCaller(config: InternalAxiosRequestConfig, shared: Promise<AxiosResponse>) {
+  return shared.then(
+    (response) => ({ ...response, config }),
+    (error) => {
+      if (axios.isAxiosError(error)) {
+        const response = error.response ? { ...error.response, config } : undefined;
+        throw AxiosError.from(error, error.code, config, error.request, response);
+      }
+      throw error;
+    }
+  );
+}
+
+/**
+ * Wrap an adapter so identical concurrent GETs share one network call.
+ * Opt out per call with `{ dedupe: false }`.
+ */
+export function createDedupingAdapter(adapter: AxiosAdapter): AxiosAdapter {
+  return (config) => {
+    if (!shouldDedupe(config)) {
+      return adapter(config);
+    }
+
+    const key = getRequestKey(config);
+    let shared = inFlightRequests.get(key);
+
+    if (!shared) {
+      const controller = new AbortController();
+      const promise = adapter({ ...config, signal: controller.signal }).finally(() => {
+        if (inFlightRequests.get(key) === entry) {
+          inFlightRequests.delete(key);
+        }
+      });
+      const entry: SharedRequest = { promise, controller, waiting: 0 };
+      inFlightRequests.set(key, entry);
+      shared = entry;
+    } else if (process.env.NODE_ENV === 'development') {
+      console.log(`[STC API] Joining in-flight GET ${config.url}`);
+    }
+
+    const request = shared;
+    request.waiting += 1;
+    const result = forCaller(config, request.promise);
+    const signal = config.signal as AbortSignal | undefined;
+
+    if (!signal) {
+      return result;
+    }
+
+    // A caller aborting only detaches that caller
+    return new Promise<AxiosResponse>((resolve, reject) => {
+      const onAbort = () => {
+        request.waiting -= 1;
+        if (request.waiting === 0) {
+          request.controller.abort();
+          if (inFlightRequests.get(key) === request) {
+            inFlightRequests.delete(key);
+          }
+        }
+        reject(new CanceledError(undefined, undefined, config));
+      };
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      result.then(resolve, reject).finally(() => {
+        signal.removeEventListener('abort', onAbort);
+      });
+    });
+  };
+}
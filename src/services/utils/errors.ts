@@ -0,0 +1,197 @@
+import axios from 'axios';
+import type { SchemaIssue } from './schema';
+
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'http'
+  | 'validation'
+  | 'cancelled'
+  // Thrown before or after the request itself (a bug in an interceptor, a bad config, ...)
+  | 'unknown';
+
+// `code` of the validation ApiError raised when a response does not match its schema
+export const INVALID_RESPONSE_CODE = 'invalid_response';
+
+// Error body returned by the STC API (and passed through by the Next route handlers)
+interface ApiErrorBody {
+  result?: {
+    code?: string;
+    message?: string;
+    errors?: Record<string, string | string[]>;
+    requestId?: string;
+  };
+  // Framework-level errors put the message at the top level
+  message?: string | string[];
+}
+
+interface ApiErrorOptions {
+  status?: number;
+  serverMessage?: string;
+  code?: string;
+  fieldErrors?: Record<string, string>;
+  requestId?: string;
+  retryAt?: number;
+  data?: unknown;
+  issues?: SchemaIssue[];
+  cause?: unknown;
+}
+
+const REQUEST_ID_HEADER = 'x-request-id';
+
+/**
+ * The single error shape every service method rejects with.
+ * Switch on `kind` to decide how to react; `status` is only set when the server answered with an
+ * HTTP error. A response that fails its schema is a "validation" error with code INVALID_RESPONSE_CODE.
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  // Message from the response body, when the server sent one
+  readonly serverMessage?: string;
+  // Machine-readable error code from the response body
+  readonly code?: string;
+  // Validation messages keyed by field, first message per field
+  readonly fieldErrors?: Record<string, string>;
+  readonly requestId?: string;
+  // From Retry-After, as epoch milliseconds
+  readonly retryAt?: number;
+  // Raw response body, for route handlers that pass it through
+  readonly data?: unknown;
+  // Schema mismatches in a response body
+  readonly issues?: SchemaIssue[];
+  readonly cause?: unknown;
+
+  constructor(kind: ApiErrorKind, message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.serverMessage = options.serverMessage;
+    this.code = options.code;
+    this.fieldErrors = options.fieldErrors;
+    this.requestId = options.requestId;
+    this.retryAt = options.retryAt;
+    this.data = options.data;
+    this.issues = options.issues;
+    this.cause = options.cause;
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into epoch milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Date.now() + seconds * 1000;
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : date;
+}
+
+function normalizeFieldErrors(
+  errors?: Record<string, string | string[]>
+): Record<string, string> | undefined {
+  if (!errors || typeof errors !== 'object') {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(errors).map(([field, messages]) => [
+      field,
+      Array.isArray(messages) ? messages[0] : messages,
+    ])
+  );
+}
+
+function readServerMessage(body?: ApiErrorBody): string | undefined {
+  if (body?.result?.message) {
+    return body.result.message;
+  }
+  if (Array.isArray(body?.message)) {
+    return body.message.join(', ');
+  }
+  return body?.message;
+}
+
+/**
+ * Convert anything a request can throw into an ApiError (ApiErrors pass through unchanged)
+ */
+export function toApiError(error: unknown): ApiError {
+  if (isApiError(error)) {
+    return error;
+  }
+
+  if (axios.isCancel(error)) {
+    return new ApiError('cancelled', 'Request was cancelled', { cause: error });
+  }
+
+  // Not a request failure at all; 'network' is kept for requests that got no response
+  if (!axios.isAxiosError(error)) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new ApiError('unknown', message, { cause: error });
+  }
+
+  const sentRequestId = error.config?.headers?.[REQUEST_ID_HEADER];
+
+  if (!error.response) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new ApiError('timeout', `Request timed out after ${error.config?.timeout ?? 0}ms`, {
+        requestId: typeof sentRequestId === 'string' ? sentRequestId : undefined,
+        cause: error,
+      });
+    }
+    return new ApiError('network', 'No response received from server - API may be offline', {
+      requestId: typeof sentRequestId === 'string' ? sentRequestId : undefined,
+      cause: error,
+    });
+  }
+
+  const { status, statusText, headers, data } = error.response;
+  const body = (data && typeof data === 'object' ? data : undefined) as ApiErrorBody | undefined;
+  const serverMessage = readServerMessage(body);
+  const fieldErrors = normalizeFieldErrors(body?.result?.errors);
+  const requestId =
+    headers?.[REQUEST_ID_HEADER] ??
+    body?.result?.requestId ??
+    (typeof sentRequestId === 'string' ? sentRequestId : undefined);
+
+  return new ApiError(
+    status === 400 || status === 422 ? 'validation' : 'http',
+    serverMessage ?? `HTTP ${status}${statusText ? `: ${statusText}` : ''}`,
+    {
+      status,
+      serverMessage,
+      code: body?.result?.code,
+      fieldErrors,
+      requestId: requestId ? String(requestId) : undefined,
+      retryAt: parseRetryAfter(headers?.['retry-after']),
+      data,
+      cause: error,
+    }
+  );
+}
+
+/**
+ * True when a call was aborted through its AbortSignal; callers should drop the result
+ * quietly instead of reporting an error
+ */
+export function isCancelledError(error: unknown): boolean {
+  return toApiError(error).kind === 'cancelled';
+}
+
+/**
+ * Read the HTTP status from a failed call, if the server responded at all
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  return toApiError(error).status;
+}
@@ -0,0 +1,46 @@
+import type { User } from '../auth';
+import type { StoredTokens } from './tokens';
+
+// localStorage key holding the admin session set aside while impersonating
+export const IMPERSONATION_KEY = 'impersonation';
+
+// Header added to every stcApi request made while impersonating, so the API can audit it
+export const IMPERSONATED_BY_HEADER = 'X-Impersonated-By';
+
+export interface StoredImpersonation {
+  // The admin who started "view as user"
+  impersonator: User;
+  // The admin's own token pair, restored by "Return to my account"
+  adminTokens: StoredTokens;
+}
+
+/**
+ * Read the admin session set aside for the current impersonation (null when not impersonating)
+ */
+export function getStoredImpersonation(): StoredImpersonation | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  try {
+    const value = localStorage.getItem(IMPERSONATION_KEY);
+    return value ? (JSON.parse(value) as StoredImpersonation) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Set the admin session aside, or forget it with null
+ */
+export function storeImpersonation(impersonation: StoredImpersonation | null): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  if (impersonation) {
+    localStorage.setItem(IMPERSONATION_KEY, JSON.stringify(impersonation));
+  } else {
+    localStorage.removeItem(IMPERSONATION_KEY);
+  }
+}
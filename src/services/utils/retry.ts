@@ -0,0 +1,78 @@
+import { AxiosError, AxiosRequestConfig } from 'axios';
+import { parseRetryAfter } from './errors';
+
+// Retries after the first attempt unless the request sets its own count
+export const DEFAULT_MAX_RETRIES = 3;
+const BASE_DELAY_MS = 300;
+const MAX_DELAY_MS = 10000;
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+/**
+ * How many times a request may be retried: 0 when it opted out or is not idempotent.
+ * `retry: true` or a number opts non-idempotent requests (POST, PATCH) in.
+ */
+export function getMaxRetries(config: AxiosRequestConfig): number {
+  if (config.retry === false) {
+    return 0;
+  }
+  if (typeof config.retry === 'number') {
+    return Math.max(0, config.retry);
+  }
+
+  const method = (config.method ?? 'get').toLowerCase();
+  return config.retry === true || IDEMPOTENT_METHODS.includes(method) ? DEFAULT_MAX_RETRIES : 0;
+}
+
+/**
+ * Transient failures worth another attempt: no response at all, 429 and gateway errors
+ */
+export function isRetryableError(error: AxiosError): boolean {
+  if (error.code === AxiosError.ERR_CANCELED) {
+    return false;
+  }
+  if (!error.response) {
+    return true;
+  }
+  return RETRYABLE_STATUSES.includes(error.response.status);
+}
+
+/**
+ * Delay before the given retry (1-based): Retry-After when the server sent one,
+ * otherwise exponential backoff with jitter. Null when Retry-After asks for too long a wait.
+ */
+export function getRetryDelay(retry: number, error: AxiosError): number | null {
+  const retryAt = parseRetryAfter(error.response?.headers?.['retry-after']);
+  if (retryAt !== undefined) {
+    const wait = Math.max(0, retryAt - Date.now());
+    return wait <= MAX_DELAY_MS ? wait : null;
+  }
+
+  const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (retry - 1));
+  // Jitter spreads retries from many clients hitting the same outage
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+/**
+ * Wait before retrying; rejects early if the request is aborted meanwhile
+ */
+export function waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,192 @@
+// Minimal runtime schemas for API payloads. Services pass one as the `schema` request option
+// and the instances check `result.data` against it before the response reaches the caller.
+
+export interface SchemaIssue {
+  // Where in the response body, e.g. "result.data.user.id"
+  path: string;
+  expected: string;
+  received: unknown;
+}
+
+export interface SchemaCheck {
+  issues: SchemaIssue[];
+  // Fields the backend sent that the schema does not describe (reported, not rejected)
+  unknownFields: string[];
+}
+
+export interface Schema<T> {
+  // Human-readable type, used in issue messages
+  readonly expected: string;
+  check(value: unknown, path: string, result: SchemaCheck): void;
+  // Carries T for type inference only; never set
+  readonly _type?: T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+// One schema per property of T; optional properties need an optional() schema
+export type ObjectShape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    check(value, path, result) {
+      if (!test(value)) {
+        result.issues.push({ path, expected, received: value });
+      }
+    },
+  };
+}
+
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export const schema = {
+  string: () => primitive<string>('string', (value) => typeof value === 'string'),
+  number: () =>
+    primitive<number>('number', (value) => typeof value === 'number' && Number.isFinite(value)),
+  boolean: () => primitive<boolean>('boolean', (value) => typeof value === 'boolean'),
+  unknown: () => primitive<unknown>('unknown', () => true),
+  null: () => primitive<null>('null', (value) => value === null),
+
+  literal<const L extends string | number | boolean>(...values: L[]): Schema<L> {
+    return primitive<L>(values.map((value) => JSON.stringify(value)).join(' | '), (value) =>
+      values.includes(value as L)
+    );
+  },
+
+  optional<T>(inner: Schema<T>): Schema<T | undefined> {
+    return {
+      expected: `${inner.expected} | undefined`,
+      check(value, path, result) {
+        if (value !== undefined) {
+          inner.check(value, path, result);
+        }
+      },
+    };
+  },
+
+  nullable<T>(inner: Schema<T>): Schema<T | null> {
+    return {
+      expected: `${inner.expected} | null`,
+      check(value, path, result) {
+        if (value !== null) {
+          inner.check(value, path, result);
+        }
+      },
+    };
+  },
+
+  union<T extends unknown[]>(...options: { [I in keyof T]: Schema<T[I]> }): Schema<T[number]> {
+    const expected = options.map((option) => option.expected).join(' | ');
+    return {
+      expected,
+      // Report the closest option's differences, so the diff points at the actual fields
+      check(value, path, result) {
+        const attempts = options.map((option) => {
+          const attempt: SchemaCheck = { issues: [], unknownFields: [] };
+          option.check(value, path, attempt);
+          return attempt;
+        });
+        const closest = attempts.reduce((best, attempt) =>
+          attempt.issues.length < best.issues.length ? attempt : best
+        );
+        result.issues.push(...closest.issues);
+        result.unknownFields.push(...closest.unknownFields);
+      },
+    };
+  },
+
+  array<T>(item: Schema<T>): Schema<T[]> {
+    return {
+      expected: `${item.expected}[]`,
+      check(value, path, result) {
+        if (!Array.isArray(value)) {
+          result.issues.push({ path, expected: `${item.expected}[]`, received: value });
+          return;
+        }
+        value.forEach((element, index) => item.check(element, `${path}[${index}]`, result));
+      },
+    };
+  },
+
+  record<T>(item: Schema<T>): Schema<Record<string, T>> {
+    return {
+      expected: `Record<string, ${item.expected}>`,
+      check(value, path, result) {
+        if (!isPlainObject(value)) {
+          result.issues.push({ path, expected: 'object', received: value });
+          return;
+        }
+        Object.entries(value).forEach(([key, entry]) => item.check(entry, childPath(path, key), result));
+      },
+    };
+  },
+
+  /**
+   * Object with known properties. `name` labels it in issue messages (e.g. "User");
+   * `open` objects may carry extra keys by design, so those are not reported.
+   */
+  object<T>(
+    shape: ObjectShape<T>,
+    { name = 'object', open = false }: { name?: string; open?: boolean } = {}
+  ): Schema<T> {
+    const entries = Object.entries(shape) as Array<[string, Schema<unknown>]>;
+    return {
+      expected: name,
+      check(value, path, result) {
+        if (!isPlainObject(value)) {
+          result.issues.push({ path, expected: name, received: value });
+          return;
+        }
+        entries.forEach(([key, property]) => property.check(value[key], childPath(path, key), result));
+        if (open) {
+          return;
+        }
+        Object.keys(value)
+          .filter((key) => !(key in shape))
+          .forEach((key) => result.unknownFields.push(childPath(path, key)));
+      },
+    };
+  },
+};
+
+/**
+ * Check a value against a schema, collecting every mismatch rather than stopping at the first
+ */
+export function checkSchema<T>(target: Schema<T>, value: unknown): SchemaCheck {
+  const result: SchemaCheck = { issues: [], unknownFields: [] };
+  target.check(value, '', result);
+  return result;
+}
+
+/**
+ * Expected-vs-received report of a failed check, for the development console
+ */
+export function formatSchemaCheck(context: string, { issues, unknownFields }: SchemaCheck): string {
+  const lines = [`[Schema] ${context}: response differs from the expected shape`];
+  issues.forEach(({ path, expected, received }) => {
+    const sample = JSON.stringify(received) ?? 'undefined';
+    const preview = sample.length > 80 ? `${sample.slice(0, 77)}...` : sample;
+    lines.push(`  - ${path || '(body)'}: expected ${expected}, received ${describeValue(received)} ${preview}`);
+  });
+  unknownFields.forEach((path) => {
+    lines.push(`  + ${path}: not in schema`);
+  });
+  return lines.join('\n');
+}
@@ -0,0 +1,100 @@
+// localStorage keys for the access/refresh token pair
+export const TOKEN_KEY = 'token';
+export const REFRESH_TOKEN_KEY = 'refreshToken';
+export const TOKEN_EXPIRES_AT_KEY = 'tokenExpiresAt';
+
+export interface StoredTokens {
+  token: string | null;
+  refreshToken: string | null;
+  // Access token expiry as epoch milliseconds
+  expiresAt: number | null;
+}
+
+/**
+ * Read the token pair from localStorage (all null on the server)
+ */
+export function getStoredTokens(): StoredTokens {
+  if (typeof window === 'undefined') {
+    return { token: null, refreshToken: null, expiresAt: null };
+  }
+
+  const expiresAt = localStorage.getItem(TOKEN_EXPIRES_AT_KEY);
+
+  return {
+    token: localStorage.getItem(TOKEN_KEY),
+    refreshToken: localStorage.getItem(REFRESH_TOKEN_KEY),
+    expiresAt: expiresAt ? Number(expiresAt) : null,
+  };
+}
+
+/**
+ * Persist the given tokens. Undefined values are left untouched, null values are removed.
+ */
+export function storeTokens(tokens: Partial<StoredTokens>): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  const entries: Array<[string, string | number | null | undefined]> = [
+    [TOKEN_KEY, tokens.token],
+    [REFRESH_TOKEN_KEY, tokens.refreshToken],
+    [TOKEN_EXPIRES_AT_KEY, tokens.expiresAt],
+  ];
+
+  entries.forEach(([key, value]) => {
+    if (value === undefined) {
+      return;
+    }
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, String(value));
+    }
+  });
+}
+
+/**
+ * Remove the whole token pair from localStorage
+ */
+export function clearStoredTokens(): void {
+  storeTokens({ token: null, refreshToken: null, expiresAt: null });
+}
+
+// Claims of a JWT payload, read without verifying the signature
+function decodeTokenClaims(token: string): { exp?: unknown; sub?: unknown } | null {
+  try {
+    const payload = token.split('.')[1];
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const claims: unknown = JSON.parse(json);
+    return claims && typeof claims === 'object' ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the `exp` claim of a JWT as epoch milliseconds, without verifying it
+ */
+export function decodeTokenExpiry(token: string): number | null {
+  const exp = decodeTokenClaims(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+/**
+ * Read the `sub` claim (the user id) of a JWT, without verifying it.
+ * Only use it on tokens the app issued itself, e.g. the one in the session cookie.
+ */
+export function decodeTokenSubject(token: string): string | null {
+  const sub = decodeTokenClaims(token)?.sub;
+  return typeof sub === 'string' && sub ? sub : null;
+}
+
+/**
+ * Work out when an access token expires, preferring the server-provided lifetime
+ */
+export function resolveTokenExpiry(token: string, expiresIn?: number): number | null {
+  if (typeof expiresIn === 'number') {
+    return Date.now() + expiresIn * 1000;
+  }
+  return decodeTokenExpiry(token);
+}
@@ -28,4 +28,31 @@ export function buildApiUrl(
   }
   
   return appendQueryParamsToUrl(endpoint, params);
-}
\ No newline at end of file
+}
+
+// Route handler serving the built-in mock STC API (src/app/api/mock-stc)
+export const MOCK_API_PATH = '/api/mock-stc';
+
+/**
+ * True when NEXT_PUBLIC_STC_MOCK_API=true points every client at the built-in mock API.
+ * The mock accepts forged tokens, so production builds ignore the flag.
+ */
+export function isMockApiEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_STC_MOCK_API === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Base URL of the STC API. With the mock enabled, the browser calls the mock on its own origin;
+ * the server calls the local Next server on PORT. Never derive it from request headers: the
+ * server sends the caller's token there.
+ */
+export function getApiBaseUrl(): string {
+  if (!isMockApiEnabled()) {
+    return process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
+  }
+  const appOrigin =
+    typeof window !== 'undefined'
+      ? window.location.origin
+      : `http://localhost:${process.env.PORT || 3000}`;
+  return `${appOrigin}${MOCK_API_PATH}`;
+}
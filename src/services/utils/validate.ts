@@ -0,0 +1,63 @@
+import type { AxiosResponse } from 'axios';
+import { ApiError, INVALID_RESPONSE_CODE } from './errors';
+import { Schema, checkSchema, formatSchemaCheck, schema } from './schema';
+
+const REQUEST_ID_HEADER = 'x-request-id';
+
+// Responses already checked. A retried or replayed request resolves the original call with the
+// replay's response, which then comes through the interceptor chain a second time.
+const validatedResponses = new WeakSet<AxiosResponse>();
+
+// The APIResponse envelope around a payload
+function envelope(payload: Schema<unknown>) {
+  return schema.object(
+    {
+      result: schema.object(
+        {
+          data: payload,
+          message: schema.optional(schema.string()),
+          success: schema.optional(schema.boolean()),
+        },
+        { name: 'APIResponse.result' }
+      ),
+    },
+    { name: 'APIResponse' }
+  );
+}
+
+/**
+ * Response interceptor: check the body against the request's `schema` option, if it has one.
+ * Mismatches reject with a validation ApiError; in development the full diff is logged.
+ */
+export function validateResponse(response: AxiosResponse): AxiosResponse {
+  const payload = response.config.schema;
+  if (!payload || validatedResponses.has(response)) {
+    return response;
+  }
+
+  const result = checkSchema(envelope(payload), response.data);
+  const request = `${response.config.method?.toUpperCase()} ${response.config.url}`;
+
+  if (process.env.NODE_ENV === 'development' && (result.issues.length || result.unknownFields.length)) {
+    const report = formatSchemaCheck(request, result);
+    if (result.issues.length) {
+      console.error(report, '\nReceived:', response.data);
+    } else {
+      console.warn(report);
+    }
+  }
+
+  if (result.issues.length === 0) {
+    validatedResponses.add(response);
+    return response;
+  }
+
+  const requestId = response.headers?.[REQUEST_ID_HEADER];
+  // No status: the server answered, but not with anything the app can use
+  throw new ApiError('validation', `Unexpected response from ${request}`, {
+    code: INVALID_RESPONSE_CODE,
+    issues: result.issues,
+    requestId: requestId ? String(requestId) : undefined,
+    data: response.data,
+  });
+}
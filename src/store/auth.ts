@@ -1,19 +1,59 @@
 import { atom } from 'jotai';
-import { User } from '@/services';
+import {
+  User,
+  clearStoredTokens,
+  getStoredImpersonation,
+  getStoredTokens,
+  storeImpersonation,
+  storeTokens,
+} from '@/services';
+import { AuthSyncMessage, broadcastAuthChange } from '@/lib/auth-sync';
+import { clearQueriesAtom } from './query';
+
+// Typed auth failure reasons so the UI can tailor its messages
+export type AuthErrorCode =
+  | 'invalid_credentials'
+  | 'unverified_account'
+  | 'account_locked'
+  | 'rate_limited'
+  | 'invalid_mfa_code'
+  | 'mfa_expired'
+  | 'validation'
+  | 'network'
+  | 'offline'
+  | 'server'
+  | 'unknown';
+
+export interface AuthError {
+  code: AuthErrorCode;
+  message: string;
+  // When a locked or rate-limited user may try again, as epoch milliseconds
+  retryAt?: number;
+  // Server-side validation messages keyed by form field
+  fieldErrors?: Record<string, string>;
+}
 
 // Auth state interface
 export interface AuthState {
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
+  // Access token expiry as epoch milliseconds
+  expiresAt: number | null;
+  // The admin viewing the app as `user`, while impersonating
+  impersonator: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  error: string | null;
+  error: AuthError | null;
 }
 
 // Initial auth state
-const initialAuthState: AuthState = {
+export const initialAuthState: AuthState = {
   user: null,
   token: null,
+  refreshToken: null,
+  expiresAt: null,
+  impersonator: null,
   isAuthenticated: false,
   isLoading: false,
   error: null,
@@ -22,6 +62,16 @@ const initialAuthState: AuthState = {
 // Auth atom
 export const authAtom = atom<AuthState>(initialAuthState);
 
+// Pending two-factor step between the password and the session.
+// Kept per tab and never broadcast: another tab cannot answer this challenge.
+export interface MfaChallengeState {
+  mfaToken: string;
+  // Challenge expiry as epoch milliseconds
+  expiresAt: number | null;
+}
+
+export const mfaChallengeAtom = atom<MfaChallengeState | null>(null);
+
 // Derived atom for checking if user is authenticated
 export const isAuthenticatedAtom = atom((get) => get(authAtom).isAuthenticated);
 
@@ -40,20 +90,41 @@ export const updateAuthAtom = atom(
 // Write-only atom for login action
 export const loginAtom = atom(
   null,
-  (get, set, { user, token }: { user: User; token: string }) => {
-    // Store token in localStorage
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('token', token);
+  (
+    get,
+    set,
+    {
+      user,
+      token,
+      refreshToken = null,
+      expiresAt = null,
+      impersonator = null,
+    }: {
+      user: User;
+      token: string;
+      refreshToken?: string | null;
+      expiresAt?: number | null;
+      impersonator?: User | null;
     }
+  ) => {
+    // Store token pair in localStorage
+    storeTokens({ token, refreshToken, expiresAt });
+    set(mfaChallengeAtom, null);
     
     // Update auth state
     set(authAtom, {
       user,
       token,
+      refreshToken,
+      expiresAt,
+      impersonator,
       isAuthenticated: true,
       isLoading: false,
       error: null,
     });
+
+    // Sign in every other open tab too
+    broadcastAuthChange({ type: 'login', user, token, refreshToken, expiresAt, impersonator });
   }
 );
 
@@ -61,20 +132,139 @@ export const loginAtom = atom(
 export const logoutAtom = atom(
   null,
   (get, set) => {
-    // Clear token from localStorage
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('token');
-    }
+    // Clear token pair (and any admin session set aside) from localStorage
+    clearStoredTokens();
+    storeImpersonation(null);
     
-    // Reset auth state
+    // Reset auth state, and drop the cached results fetched as this user
     set(authAtom, initialAuthState);
+    set(mfaChallengeAtom, null);
+    set(clearQueriesAtom);
+
+    // Sign out every other open tab too
+    broadcastAuthChange({ type: 'logout' });
+  }
+);
+
+// Write-only atom for applying a rotated token pair
+export const refreshTokensAtom = atom(
+  null,
+  (
+    get,
+    set,
+    tokens: { token: string; refreshToken: string | null; expiresAt: number | null }
+  ) => {
+    const currentState = get(authAtom);
+    set(authAtom, { ...currentState, ...tokens });
+
+    // Other tabs share localStorage but still hold the old token in their atoms
+    broadcastAuthChange({ type: 'refresh', ...tokens });
+  }
+);
+
+// Write-only atom for applying an auth change broadcast by another tab.
+// localStorage is shared, so only the in-memory state needs updating, and nothing is re-broadcast.
+export const applyRemoteAuthChangeAtom = atom(
+  null,
+  (get, set, message: AuthSyncMessage) => {
+    const currentState = get(authAtom);
+
+    switch (message.type) {
+      case 'login':
+        if (currentState.user?.id !== message.user.id) {
+          set(clearQueriesAtom);
+        }
+        set(authAtom, {
+          user: message.user,
+          token: message.token,
+          refreshToken: message.refreshToken,
+          expiresAt: message.expiresAt,
+          impersonator: message.impersonator ?? null,
+          isAuthenticated: true,
+          isLoading: false,
+          error: null,
+        });
+        break;
+      case 'refresh':
+        set(authAtom, {
+          ...currentState,
+          token: message.token,
+          refreshToken: message.refreshToken,
+          expiresAt: message.expiresAt,
+        });
+        break;
+      case 'logout':
+        set(authAtom, initialAuthState);
+        set(clearQueriesAtom);
+        break;
+    }
+  }
+);
+
+// Write-only atom for switching to another user's session while keeping the admin's aside
+export const startImpersonationAtom = atom(
+  null,
+  (
+    get,
+    set,
+    session: { user: User; token: string; refreshToken?: string | null; expiresAt?: number | null }
+  ) => {
+    const { user: impersonator } = get(authAtom);
+    if (!impersonator) {
+      return;
+    }
+
+    storeImpersonation({ impersonator, adminTokens: getStoredTokens() });
+    // Nothing the admin fetched may show up as the impersonated user's data, or the reverse
+    set(clearQueriesAtom);
+    set(loginAtom, { ...session, impersonator });
+  }
+);
+
+// Write-only atom for returning to the admin session set aside by startImpersonationAtom.
+// Returns false when the admin tokens were gone and it signed out instead; the caller must then
+// clear the session cookie too, since the server has already put the admin session back.
+export const stopImpersonationAtom = atom(
+  null,
+  (get, set, admin: User | null = null): boolean => {
+    const stored = getStoredImpersonation();
+    const user = admin ?? stored?.impersonator ?? get(authAtom).impersonator;
+    storeImpersonation(null);
+
+    if (!user || !stored?.adminTokens.token) {
+      set(logoutAtom);
+      return false;
+    }
+
+    const { token, refreshToken, expiresAt } = stored.adminTokens;
+    set(clearQueriesAtom);
+    set(loginAtom, { user, token, refreshToken, expiresAt });
+    return true;
+  }
+);
+
+// Write-only atom for asking the user for their second factor
+export const startMfaChallengeAtom = atom(
+  null,
+  (get, set, challenge: MfaChallengeState) => {
+    set(mfaChallengeAtom, challenge);
+    set(authAtom, { ...get(authAtom), isLoading: false, error: null });
+  }
+);
+
+// Write-only atom for abandoning the two-factor step, optionally reporting why
+export const cancelMfaChallengeAtom = atom(
+  null,
+  (get, set, error: AuthError | null = null) => {
+    set(mfaChallengeAtom, null);
+    set(authAtom, { ...get(authAtom), isLoading: false, error });
   }
 );
 
 // Write-only atom for setting auth error
 export const setAuthErrorAtom = atom(
   null,
-  (get, set, error: string) => {
+  (get, set, error: AuthError | null) => {
     const currentState = get(authAtom);
     set(authAtom, {
       ...currentState,
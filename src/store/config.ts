@@ -7,6 +7,10 @@ export interface ConfigState {
   error: string | null;
 }
 
+// Query cache key and tag for GET /configs (see useConfigQuery)
+export const CONFIG_QUERY_KEY = ['config'] as const;
+export const CONFIG_QUERY_TAG = 'config';
+
 // Initialize the config atom with default state
 export const configAtom = atom<ConfigState>({
   config: null,
@@ -24,4 +28,12 @@ export const updateConfigAtom = atom(
     const current = get(configAtom);
     set(configAtom, { ...current, ...update });
   }
-);
\ No newline at end of file
+);
+
+// Page size used by list hooks unless they are given one; set in the API config as job_board_page_size
+export const DEFAULT_PAGE_SIZE = 20;
+
+export const pageSizeAtom = atom((get) => {
+  const pageSize = Number(get(configAtom).config?.job_board_page_size);
+  return Number.isInteger(pageSize) && pageSize > 0 ? pageSize : DEFAULT_PAGE_SIZE;
+});
@@ -0,0 +1,230 @@
+import { atom } from 'jotai';
+import { ApiError, toApiError } from '@/services';
+
+// Query keys identify a service call and its arguments, e.g. ['config'] or ['jobs', { page: 2 }]
+export type QueryKey = string | readonly unknown[];
+
+export type QueryStatus = 'idle' | 'loading' | 'success' | 'error';
+
+export interface QueryEntry<T = unknown> {
+  data: T | undefined;
+  error: ApiError | null;
+  status: QueryStatus;
+  // When data was last fetched successfully, as epoch milliseconds
+  updatedAt: number | null;
+  isFetching: boolean;
+  // Marked by invalidation; mounted queries refetch, others refetch on next use
+  isInvalidated: boolean;
+  // Tags used by mutations to invalidate related queries
+  tags: string[];
+}
+
+// Query results seeded from server components, keyed by hashed query key
+export type DehydratedQueries = Record<string, { data: unknown; updatedAt: number; tags?: string[] }>;
+
+export const emptyQueryEntry: QueryEntry = {
+  data: undefined,
+  error: null,
+  status: 'idle',
+  updatedAt: null,
+  isFetching: false,
+  isInvalidated: false,
+  tags: [],
+};
+
+/**
+ * Stable string for a query key; object properties are sorted so { a, b } and { b, a } match
+ */
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(typeof key === 'string' ? [key] : key, (_, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  );
+}
+
+/**
+ * Prepare server-fetched results for `initialData.queries` so the client cache starts warm
+ */
+export function dehydrateQueries(
+  queries: Array<{ key: QueryKey; data: unknown; tags?: string[] }>
+): DehydratedQueries {
+  const updatedAt = Date.now();
+  return Object.fromEntries(
+    queries.map(({ key, data, tags }) => [hashQueryKey(key), { data, updatedAt, tags }])
+  );
+}
+
+export function hydrateQueries(dehydrated: DehydratedQueries): Record<string, QueryEntry> {
+  return Object.fromEntries(
+    Object.entries(dehydrated).map(([hash, { data, updatedAt, tags = [] }]) => [
+      hash,
+      { ...emptyQueryEntry, data, updatedAt, status: 'success' as const, tags },
+    ])
+  );
+}
+
+// Query cache, keyed by hashed query key
+export const queryCacheAtom = atom<Record<string, QueryEntry>>({});
+
+// Write-only atom for patching one cache entry
+const updateQueryEntryAtom = atom(
+  null,
+  (get, set, { hash, update }: { hash: string; update: Partial<QueryEntry> }) => {
+    const cache = get(queryCacheAtom);
+    set(queryCacheAtom, {
+      ...cache,
+      [hash]: { ...(cache[hash] ?? emptyQueryEntry), ...update },
+    });
+  }
+);
+
+type InFlightQueries = Map<string, { promise: Promise<unknown>; controller: AbortController }>;
+
+// Fetches in flight, so concurrent subscribers of a key share one call (and can cancel it).
+// A derived atom so every store (one per request on the server) gets its own map.
+const inFlightQueriesAtom = atom<InFlightQueries>(() => new Map());
+
+// Write-only atom for running a query function and storing its result
+export const fetchQueryAtom = atom(
+  null,
+  (
+    get,
+    set,
+    {
+      hash,
+      fn,
+      tags = [],
+    }: { hash: string; fn: (signal: AbortSignal) => Promise<unknown>; tags?: string[] }
+  ): Promise<unknown> => {
+    const inFlightQueries = get(inFlightQueriesAtom);
+
+    // A cancelled fetch is replaced (e.g. when a component remounts right after unmounting)
+    const pending = inFlightQueries.get(hash);
+    if (pending && !pending.controller.signal.aborted) {
+      return pending.promise;
+    }
+
+    const current = get(queryCacheAtom)[hash] ?? emptyQueryEntry;
+    set(updateQueryEntryAtom, {
+      hash,
+      update: {
+        tags,
+        isFetching: true,
+        // Keep showing cached data while revalidating
+        status: current.data === undefined ? 'loading' : current.status,
+      },
+    });
+
+    const controller = new AbortController();
+    // False once a newer fetch for the key has taken over
+    const isLatest = () => inFlightQueries.get(hash)?.controller === controller;
+
+    const promise = fn(controller.signal)
+      .then((data) => {
+        set(updateQueryEntryAtom, {
+          hash,
+          update: {
+            data,
+            error: null,
+            status: 'success',
+            updatedAt: Date.now(),
+            isFetching: false,
+            isInvalidated: false,
+          },
+        });
+        return data;
+      })
+      .catch((error) => {
+        const apiError = toApiError(error);
+        if (apiError.kind === 'cancelled' && !isLatest()) {
+          throw apiError;
+        }
+        set(updateQueryEntryAtom, {
+          hash,
+          // A cancelled fetch is not a failure; put the entry back the way it was
+          update:
+            apiError.kind === 'cancelled'
+              ? { status: current.status === 'loading' ? 'idle' : current.status, isFetching: false }
+              : { error: apiError, status: 'error', isFetching: false },
+        });
+        throw apiError;
+      })
+      .finally(() => {
+        if (isLatest()) {
+          inFlightQueries.delete(hash);
+        }
+      });
+
+    inFlightQueries.set(hash, { promise, controller });
+    return promise;
+  }
+);
+
+// Write-only atom for aborting a key's in-flight fetch, e.g. when its last subscriber unmounts
+export const cancelQueryAtom = atom(null, (get, set, hash: string) => {
+  get(inFlightQueriesAtom).get(hash)?.controller.abort();
+});
+
+// Write-only atom for forgetting every cached result when the signed-in user changes.
+// In-flight fetches are aborted and entries keep only their tags, marked invalidated so
+// mounted queries refetch as the new user.
+export const clearQueriesAtom = atom(null, (get, set) => {
+  const inFlightQueries = get(inFlightQueriesAtom);
+  inFlightQueries.forEach(({ controller }) => controller.abort());
+  inFlightQueries.clear();
+
+  set(
+    queryCacheAtom,
+    Object.fromEntries(
+      Object.entries(get(queryCacheAtom)).map(([hash, entry]) => [
+        hash,
+        { ...emptyQueryEntry, tags: entry.tags, isInvalidated: true },
+      ])
+    )
+  );
+});
+
+// Write-only atom for replacing cached data directly (e.g. with a mutation response)
+export const setQueryDataAtom = atom(
+  null,
+  (get, set, { key, data }: { key: QueryKey; data: unknown }) => {
+    set(updateQueryEntryAtom, {
+      hash: hashQueryKey(key),
+      update: { data, error: null, status: 'success', updatedAt: Date.now(), isInvalidated: false },
+    });
+  }
+);
+
+// Write-only atom for marking queries stale by tag and/or exact key (everything when both are omitted)
+export const invalidateQueriesAtom = atom(
+  null,
+  (get, set, { tags, key }: { tags?: string[]; key?: QueryKey } = {}) => {
+    const keyHash = key === undefined ? undefined : hashQueryKey(key);
+    const cache = get(queryCacheAtom);
+
+    const matches = (hash: string, entry: QueryEntry) => {
+      if (keyHash === undefined && !tags) {
+        return true;
+      }
+      return hash === keyHash || !!tags?.some((tag) => entry.tags.includes(tag));
+    };
+
+    set(
+      queryCacheAtom,
+      Object.fromEntries(
+        Object.entries(cache).map(([hash, entry]) => [
+          hash,
+          matches(hash, entry) ? { ...entry, isInvalidated: true } : entry,
+        ])
+      )
+    );
+  }
+);
+
+// Write-only atom for evicting an unused entry once its cache time is up
+export const removeQueryAtom = atom(null, (get, set, hash: string) => {
+  const rest = { ...get(queryCacheAtom) };
+  delete rest[hash];
+  set(queryCacheAtom, rest);
+});